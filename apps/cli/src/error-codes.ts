@@ -3,7 +3,8 @@ export const EXIT_CODES = {
   USAGE: 2,
   AUTH: 3,
   PARTIAL_FAILURE: 4,
-  INTERNAL: 5
+  INTERNAL: 5,
+  CANCELLED: 130
 } as const;
 
 export type CliErrorCode =
@@ -65,6 +66,7 @@ export function toCliError(error: unknown): CliError {
     lower.includes("requires --") ||
     lower.includes("invalid value") ||
     lower.includes("cannot be used together") ||
+    lower.includes("no cookie database found") ||
     lower.includes("is required")
   ) {
     return new CliError("TWMD_E_USAGE", message);
@@ -72,9 +74,12 @@ export function toCliError(error: unknown): CliError {
 
   if (
     lower.includes("missing required cookies") ||
+    lower.includes("no x/twitter cookie found") ||
+    lower.includes("system keyring") ||
     lower.includes("session is not available") ||
     lower.includes("not logged in") ||
-    lower.includes("login first")
+    lower.includes("login first") ||
+    lower.includes("session key")
   ) {
     return new CliError("TWMD_E_AUTH", message);
   }
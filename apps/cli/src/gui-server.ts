@@ -19,25 +19,45 @@ export interface GuiServerHandle {
 }
 
 interface DownloadRequest {
+  profile?: string;
+  rotate?: boolean;
   users: string;
+  likes?: string;
+  lists?: string;
+  bookmarks?: boolean;
   outDir: string;
-  engine?: "playwright" | "graphql" | string;
+  filenameTemplate?: string;
+  writeMetadata?: boolean;
+  embedMetadata?: boolean;
+  include?: string;
+  // One engine or a comma separated fallback chain.
+  engine?: string;
   kinds?: string;
   maxTweets?: number;
   concurrency?: number;
+  userConcurrency?: number;
   retry?: number;
   userRetry?: number;
   userDelayMs?: number;
   requestDelayMs?: number;
+  maxRate?: string;
 }
 
-interface LoginRequest {
+interface ProfileRequest {
+  profile?: string;
+}
+
+interface WhoamiRequest extends ProfileRequest {
+  verify?: boolean;
+}
+
+interface LoginRequest extends ProfileRequest {
   cookieText?: string;
   cookieFilePath?: string;
   looseCookie?: boolean;
 }
 
-interface InteractiveLoginRequest {
+interface InteractiveLoginRequest extends ProfileRequest {
   looseCookie?: boolean;
   timeoutMs?: number;
 }
@@ -258,6 +278,31 @@ const HTML_PAGE = `<!doctype html>
         }
       }
 
+      function formatBytes(bytes) {
+        var units = ["B", "KiB", "MiB", "GiB"];
+        var value = bytes;
+        var unit = 0;
+        while (value >= 1024 && unit < units.length - 1) {
+          value /= 1024;
+          unit += 1;
+        }
+
+        return (unit === 0 ? String(value) : value.toFixed(1)) + " " + units[unit];
+      }
+
+      function formatEta(seconds) {
+        if (seconds < 60) {
+          return seconds + " 秒";
+        }
+
+        var minutes = Math.floor(seconds / 60);
+        if (minutes < 60) {
+          return minutes + " 分 " + (seconds % 60) + " 秒";
+        }
+
+        return Math.floor(minutes / 60) + " 小时 " + (minutes % 60) + " 分";
+      }
+
       function withTimePrefix(text, ts) {
         var t = toTimeLabel(ts);
         if (!t) {
@@ -304,6 +349,61 @@ const HTML_PAGE = `<!doctype html>
             );
           }
 
+          if (event.type === "media_started" && event.media) {
+            return withTimePrefix(
+              "@" + (event.username || "unknown") + " 开始下载 " + event.media.kind + " " + event.media.mediaId,
+              event.timestamp || parsed.ts
+            );
+          }
+
+          if (event.type === "media_downloaded" && event.media) {
+            var detail = typeof event.media.bytes === "number" ? formatBytes(event.media.bytes) : "";
+            if (event.media.bytesPerSecond) {
+              detail += "，" + formatBytes(event.media.bytesPerSecond) + "/s";
+            }
+
+            return withTimePrefix(
+              "@" +
+                (event.username || "unknown") +
+                " 已下载 " +
+                event.media.kind +
+                " " +
+                event.media.mediaId +
+                (detail ? "（" + detail + "）" : ""),
+              event.timestamp || parsed.ts
+            );
+          }
+
+          if (event.type === "media_skipped" && event.media) {
+            return withTimePrefix(
+              "@" + (event.username || "unknown") + " 跳过 " + event.media.kind + " " + event.media.mediaId + "（已下载）",
+              event.timestamp || parsed.ts
+            );
+          }
+
+          if (event.type === "media_failed") {
+            return withTimePrefix("@" + (event.username || "unknown") + " 下载失败：" + event.message, event.timestamp || parsed.ts);
+          }
+
+          if (event.type === "job_progress" && event.progress) {
+            var p = event.progress;
+            var text =
+              "总进度：" +
+              (p.downloaded + p.failed + p.skipped) +
+              "/" +
+              p.total +
+              "，已接收 " +
+              formatBytes(p.bytes || 0);
+            if (typeof p.bytesPerSecond === "number") {
+              text += "，速度 " + formatBytes(p.bytesPerSecond) + "/s";
+            }
+            if (typeof p.etaSeconds === "number") {
+              text += "，预计剩余 " + formatEta(p.etaSeconds);
+            }
+
+            return withTimePrefix(text, event.timestamp || parsed.ts);
+          }
+
           if (event.type === "user_finished") {
             return withTimePrefix("@" + (event.username || "unknown") + " 处理完成", event.timestamp || parsed.ts);
           }
@@ -322,6 +422,21 @@ const HTML_PAGE = `<!doctype html>
             );
           }
 
+          if (event.type === "job_cancelled" && event.progress) {
+            return withTimePrefix(
+              "任务已取消：已下载 " +
+                event.progress.downloaded +
+                "，失败 " +
+                event.progress.failed +
+                "，跳过 " +
+                event.progress.skipped +
+                "（可用 twmd resume " +
+                (event.jobId || "<job-id>") +
+                " 继续）",
+              event.timestamp || parsed.ts
+            );
+          }
+
           if (event.type === "warning") {
             return withTimePrefix("警告：" + event.message, event.timestamp || parsed.ts);
           }
@@ -442,7 +557,7 @@ const HTML_PAGE = `<!doctype html>
         var _useState6 = useState("image,video,gif"),
           kinds = _useState6[0],
           setKinds = _useState6[1];
-        var _useState7 = useState("graphql"),
+        var _useState7 = useState("graphql,v11"),
           engine = _useState7[0],
           setEngine = _useState7[1];
         var _useState8 = useState(""),
@@ -469,6 +584,48 @@ const HTML_PAGE = `<!doctype html>
         var _useState15 = useState("准备就绪"),
           status = _useState15[0],
           setStatus = _useState15[1];
+        var _useState16 = useState(""),
+          likes = _useState16[0],
+          setLikes = _useState16[1];
+        var _useState17 = useState(""),
+          lists = _useState17[0],
+          setLists = _useState17[1];
+        var _useState18 = useState(false),
+          bookmarks = _useState18[0],
+          setBookmarks = _useState18[1];
+        var _useState19 = useState(""),
+          filenameTemplate = _useState19[0],
+          setFilenameTemplate = _useState19[1];
+        var _useState20 = useState(false),
+          writeMetadata = _useState20[0],
+          setWriteMetadata = _useState20[1];
+        var _useState21 = useState(false),
+          embedMetadata = _useState21[0],
+          setEmbedMetadata = _useState21[1];
+        var _useState22 = useState(false),
+          includeRetweets = _useState22[0],
+          setIncludeRetweets = _useState22[1];
+        var _useState23 = useState(false),
+          includeQuotes = _useState23[0],
+          setIncludeQuotes = _useState23[1];
+        var _useState24 = useState(false),
+          includeReplies = _useState24[0],
+          setIncludeReplies = _useState24[1];
+        var _useState25 = useState(""),
+          maxRate = _useState25[0],
+          setMaxRate = _useState25[1];
+        var _useState26 = useState("1"),
+          userConcurrency = _useState26[0],
+          setUserConcurrency = _useState26[1];
+        var _useState27 = useState(""),
+          profile = _useState27[0],
+          setProfile = _useState27[1];
+        var _useState28 = useState([]),
+          profileOptions = _useState28[0],
+          setProfileOptions = _useState28[1];
+        var _useState29 = useState(false),
+          rotate = _useState29[0],
+          setRotate = _useState29[1];
 
         var logRef = useRef(null);
         var appendLogRef = useRef(function () {
@@ -554,7 +711,13 @@ const HTML_PAGE = `<!doctype html>
                 }
 
                 if (data.type === "finished") {
-                  setStatus(data.exitCode === 0 || data.exitCode === 4 ? "任务结束" : "任务失败");
+                  setStatus(
+                    data.exitCode === 0 || data.exitCode === 4
+                      ? "任务结束"
+                      : data.exitCode === 130
+                        ? "任务已取消"
+                        : "任务失败"
+                  );
                 }
               });
               events.onerror = function () {
@@ -578,25 +741,41 @@ const HTML_PAGE = `<!doctype html>
           };
         }, []);
 
+        async function refreshProfiles() {
+          try {
+            var res = await fetch("/api/profiles");
+            var data = await res.json();
+            setProfileOptions(Array.isArray(data.profiles) ? data.profiles : []);
+          } catch (error) {
+            appendLogRef.current("[profiles] " + (error && error.message ? error.message : String(error)));
+          }
+        }
+
+        useEffect(function () {
+          void refreshProfiles();
+        }, []);
+
         async function handleLogin() {
           try {
             setStatus("保存登录中...");
             var result = await post("/api/login", {
+              profile: profile,
               cookieText: cookieText,
               cookieFilePath: cookieFilePath,
               looseCookie: looseCookie
             });
             appendCommandResult("login", result);
             setStatus(result.exitCode === 0 ? "登录已保存" : "登录失败");
+            void refreshProfiles();
           } catch (error) {
             appendLogRef.current("[login] " + (error && error.message ? error.message : String(error)));
             setStatus("登录失败");
           }
         }
 
-        async function handleWhoami() {
+        async function handleWhoami(verify) {
           try {
-            var result = await post("/api/whoami", {});
+            var result = await post("/api/whoami", { profile: profile, verify: verify === true });
             appendCommandResult("whoami", result);
           } catch (error) {
             appendLogRef.current("[whoami] " + (error && error.message ? error.message : String(error)));
@@ -607,11 +786,13 @@ const HTML_PAGE = `<!doctype html>
           try {
             setStatus("打开浏览器登录中...");
             var result = await post("/api/login-interactive", {
+              profile: profile,
               looseCookie: looseCookie,
               timeoutMs: 180000
             });
             appendCommandResult("login-interactive", result);
             setStatus(result.exitCode === 0 ? "交互式登录成功" : "交互式登录失败");
+            void refreshProfiles();
           } catch (error) {
             appendLogRef.current(
               "[login-interactive] " + (error && error.message ? error.message : String(error))
@@ -622,8 +803,9 @@ const HTML_PAGE = `<!doctype html>
 
         async function handleLogout() {
           try {
-            var result = await post("/api/logout", {});
+            var result = await post("/api/logout", { profile: profile });
             appendCommandResult("logout", result);
+            void refreshProfiles();
           } catch (error) {
             appendLogRef.current("[logout] " + (error && error.message ? error.message : String(error)));
           }
@@ -631,17 +813,39 @@ const HTML_PAGE = `<!doctype html>
 
         async function handleStart() {
           try {
+            var include = [];
+            if (includeRetweets) {
+              include.push("retweets");
+            }
+            if (includeQuotes) {
+              include.push("quotes");
+            }
+            if (includeReplies) {
+              include.push("replies");
+            }
+
             var payload = {
+              profile: profile,
+              rotate: rotate,
               users: users,
+              likes: likes,
+              lists: lists,
+              bookmarks: bookmarks,
               outDir: outDir,
+              filenameTemplate: filenameTemplate,
+              writeMetadata: writeMetadata,
+              embedMetadata: embedMetadata,
+              include: include.join(","),
               engine: engine,
               kinds: kinds,
               maxTweets: toOptionalNumber(maxTweets),
               concurrency: toOptionalNumber(concurrency),
+              userConcurrency: toOptionalNumber(userConcurrency),
               retry: toOptionalNumber(retry),
               userRetry: toOptionalNumber(userRetry),
               userDelayMs: toOptionalNumber(userDelayMs),
-              requestDelayMs: toOptionalNumber(requestDelayMs)
+              requestDelayMs: toOptionalNumber(requestDelayMs),
+              maxRate: maxRate
             };
 
             var result = await post("/api/download", payload);
@@ -675,6 +879,32 @@ const HTML_PAGE = `<!doctype html>
             "section",
             { className: "card" },
             h("h2", null, "1) 登录"),
+            h(
+              "div",
+              { className: "row" },
+              h("label", { htmlFor: "profile" }, "账号配置（留空为 default）"),
+              h("input", {
+                id: "profile",
+                type: "text",
+                list: "profileOptions",
+                placeholder: "例如 work",
+                value: profile,
+                onChange: function (event) {
+                  setProfile(event.target.value);
+                }
+              }),
+              h(
+                "datalist",
+                { id: "profileOptions" },
+                profileOptions.map(function (item) {
+                  return h("option", {
+                    key: item.profile,
+                    value: item.profile,
+                    label: item.profile + (item.loggedIn ? "（已登录）" : "（会话不完整）")
+                  });
+                })
+              )
+            ),
             h(
               "div",
               { className: "row" },
@@ -757,6 +987,16 @@ const HTML_PAGE = `<!doctype html>
                 },
                 "检查登录"
               ),
+              h(
+                "button",
+                {
+                  id: "btnVerify",
+                  onClick: function () {
+                    void handleWhoami(true);
+                  }
+                },
+                "在线验证"
+              ),
               h(
                 "button",
                 {
@@ -773,6 +1013,27 @@ const HTML_PAGE = `<!doctype html>
             "section",
             { className: "card" },
             h("h2", null, "2) 下载"),
+            h(
+              "div",
+              { className: "row" },
+              h(
+                "label",
+                null,
+                h("input", {
+                  id: "rotate",
+                  type: "checkbox",
+                  checked: rotate,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setRotate(event.target.checked);
+                  }
+                }),
+                "账号受限（限流或会话失效）时自动切换到其他已登录的账号配置"
+              )
+            ),
             h(
               "div",
               { className: "row" },
@@ -786,6 +1047,59 @@ const HTML_PAGE = `<!doctype html>
                 }
               })
             ),
+            h(
+              "div",
+              { className: "grid2" },
+              h(
+                "div",
+                { className: "row" },
+                h("label", { htmlFor: "likes" }, "下载这些用户的喜欢（可选）"),
+                h("input", {
+                  id: "likes",
+                  type: "text",
+                  placeholder: "nasa",
+                  value: likes,
+                  onChange: function (event) {
+                    setLikes(event.target.value);
+                  }
+                })
+              ),
+              h(
+                "div",
+                { className: "row" },
+                h("label", { htmlFor: "lists" }, "列表 ID（可选）"),
+                h("input", {
+                  id: "lists",
+                  type: "text",
+                  placeholder: "1234567890",
+                  value: lists,
+                  onChange: function (event) {
+                    setLists(event.target.value);
+                  }
+                })
+              )
+            ),
+            h(
+              "div",
+              { className: "row" },
+              h(
+                "label",
+                null,
+                h("input", {
+                  id: "bookmarks",
+                  type: "checkbox",
+                  checked: bookmarks,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setBookmarks(event.target.checked);
+                  }
+                }),
+                "下载当前账号的书签"
+              )
+            ),
             h(
               "div",
               { className: "grid2" },
@@ -816,6 +1130,122 @@ const HTML_PAGE = `<!doctype html>
                 })
               )
             ),
+            h(
+              "div",
+              { className: "row" },
+              h("label", { htmlFor: "filenameTemplate" }, "文件名模板（可选）"),
+              h("input", {
+                id: "filenameTemplate",
+                type: "text",
+                placeholder: "{folder}/{tweetId}_{mediaId}.{ext}",
+                value: filenameTemplate,
+                onChange: function (event) {
+                  setFilenameTemplate(event.target.value);
+                }
+              })
+            ),
+            h(
+              "div",
+              { className: "row" },
+              h(
+                "label",
+                null,
+                h("input", {
+                  id: "writeMetadata",
+                  type: "checkbox",
+                  checked: writeMetadata,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setWriteMetadata(event.target.checked);
+                  }
+                }),
+                "同时写入推文元数据 JSON"
+              )
+            ),
+            h(
+              "div",
+              { className: "row" },
+              h(
+                "label",
+                null,
+                h("input", {
+                  id: "embedMetadata",
+                  type: "checkbox",
+                  checked: embedMetadata,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setEmbedMetadata(event.target.checked);
+                  }
+                }),
+                "将推文信息写入图片 EXIF/XMP 与视频标签"
+              )
+            ),
+            h(
+              "div",
+              { className: "row" },
+              h("label", null, "额外包含（仅用户时间线）"),
+              h(
+                "div",
+                null,
+              h(
+                "label",
+                { style: { marginRight: "12px" } },
+                h("input", {
+                  id: "includeRetweets",
+                  type: "checkbox",
+                  checked: includeRetweets,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setIncludeRetweets(event.target.checked);
+                  }
+                }),
+                "转推"
+              ),
+              h(
+                "label",
+                { style: { marginRight: "12px" } },
+                h("input", {
+                  id: "includeQuotes",
+                  type: "checkbox",
+                  checked: includeQuotes,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setIncludeQuotes(event.target.checked);
+                  }
+                }),
+                "引用推文中的媒体"
+              ),
+              h(
+                "label",
+                { style: { marginRight: "12px" } },
+                h("input", {
+                  id: "includeReplies",
+                  type: "checkbox",
+                  checked: includeReplies,
+                  style: {
+                    width: "auto",
+                    marginRight: "6px"
+                  },
+                  onChange: function (event) {
+                    setIncludeReplies(event.target.checked);
+                  }
+                }),
+                "自己的回复/串推"
+              )
+              )
+            ),
             h(
               "details",
               null,
@@ -836,7 +1266,10 @@ const HTML_PAGE = `<!doctype html>
                         setEngine(event.target.value);
                       }
                     },
-                    h("option", { value: "graphql" }, "graphql（API 抓取）"),
+                    h("option", { value: "graphql,v11" }, "graphql → v11（默认，API 抓取）"),
+                    h("option", { value: "graphql" }, "graphql（仅 GraphQL API）"),
+                    h("option", { value: "v11" }, "v11（REST API v1.1）"),
+                    h("option", { value: "graphql,v11,playwright" }, "graphql → v11 → playwright"),
                     h("option", { value: "playwright" }, "playwright（仅页面抓取）")
                   )
                 ),
@@ -869,6 +1302,20 @@ const HTML_PAGE = `<!doctype html>
                     }
                   })
                 ),
+                h(
+                  "div",
+                  { className: "row" },
+                  h("label", { htmlFor: "userConcurrency" }, "用户并发"),
+                  h("input", {
+                    id: "userConcurrency",
+                    type: "number",
+                    min: "1",
+                    value: userConcurrency,
+                    onChange: function (event) {
+                      setUserConcurrency(event.target.value);
+                    }
+                  })
+                ),
                 h(
                   "div",
                   { className: "row" },
@@ -924,6 +1371,20 @@ const HTML_PAGE = `<!doctype html>
                       setRequestDelayMs(event.target.value);
                     }
                   })
+                ),
+                h(
+                  "div",
+                  { className: "row" },
+                  h("label", { htmlFor: "maxRate" }, "限速"),
+                  h("input", {
+                    id: "maxRate",
+                    type: "text",
+                    placeholder: "如 5MB/s，留空不限速",
+                    value: maxRate,
+                    onChange: function (event) {
+                      setMaxRate(event.target.value);
+                    }
+                  })
                 )
               )
             ),
@@ -1076,6 +1537,34 @@ function sanitizeUsers(raw: string): string[] {
     .filter(Boolean);
 }
 
+// Name checks are left to the CLI, which reports them as usage errors.
+function toProfileArgs(input: unknown): string[] {
+  const profile = typeof input === "string" ? input.trim() : "";
+  return profile ? ["--profile", profile] : [];
+}
+
+function parseProfileList(stdout: string): Array<{ profile: string; loggedIn: boolean; updatedAt?: string }> {
+  const profiles: Array<{ profile: string; loggedIn: boolean; updatedAt?: string }> = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    let parsed: { message?: unknown; profile?: unknown; loggedIn?: unknown; updatedAt?: unknown };
+    try {
+      parsed = JSON.parse(line) as typeof parsed;
+    } catch {
+      continue;
+    }
+
+    if (parsed.message === "Session profile" && typeof parsed.profile === "string") {
+      profiles.push({
+        profile: parsed.profile,
+        loggedIn: parsed.loggedIn === true,
+        updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : undefined
+      });
+    }
+  }
+
+  return profiles;
+}
+
 function parsePositiveInt(input: unknown, key: string): string[] {
   if (input === undefined || input === null || input === "") {
     return [];
@@ -1166,7 +1655,15 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
           await writeFile(cookieFilePath, cookieText, "utf8");
         }
 
-        const args = ["login", "--cookie-file", cookieFilePath, "--output-format", "json", "--no-color"];
+        const args = [
+          "login",
+          "--cookie-file",
+          cookieFilePath,
+          ...toProfileArgs(payload.profile),
+          "--output-format",
+          "json",
+          "--no-color"
+        ];
         if (looseCookie) {
           args.push("--loose-cookie");
         }
@@ -1183,9 +1680,28 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
         return;
       }
 
+      if (method === "GET" && requestUrl.pathname === "/api/profiles") {
+        const result = await runCliOnce(input.cliScriptPath, [
+          "profiles",
+          "list",
+          "--output-format",
+          "json",
+          "--no-color"
+        ]);
+
+        sendJson(res, 200, {
+          ok: result.exitCode === 0,
+          profiles: parseProfileList(result.stdout)
+        });
+        return;
+      }
+
       if (method === "POST" && requestUrl.pathname === "/api/whoami") {
+        const payload = await readJsonBody<WhoamiRequest>(req);
         const result = await runCliOnce(input.cliScriptPath, [
           "whoami",
+          ...toProfileArgs(payload.profile),
+          ...(payload.verify === true ? ["--verify"] : []),
           "--output-format",
           "json",
           "--no-color"
@@ -1202,6 +1718,7 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
         const payload = await readJsonBody<InteractiveLoginRequest>(req);
         const args = [
           "login-interactive",
+          ...toProfileArgs(payload.profile),
           "--output-format",
           "json",
           "--no-color"
@@ -1224,8 +1741,10 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
       }
 
       if (method === "POST" && requestUrl.pathname === "/api/logout") {
+        const payload = await readJsonBody<ProfileRequest>(req);
         const result = await runCliOnce(input.cliScriptPath, [
           "logout",
+          ...toProfileArgs(payload.profile),
           "--output-format",
           "json",
           "--no-color"
@@ -1248,9 +1767,12 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
 
         const payload = await readJsonBody<DownloadRequest>(req);
         const users = sanitizeUsers(payload.users ?? "");
-        if (users.length === 0) {
+        const likes = sanitizeUsers(payload.likes ?? "");
+        const lists = sanitizeUsers(payload.lists ?? "");
+        const bookmarks = payload.bookmarks === true;
+        if (users.length === 0 && likes.length === 0 && lists.length === 0 && !bookmarks) {
           sendJson(res, 400, {
-            error: "users 不能为空。"
+            error: "users、likes、lists 与 bookmarks 不能同时为空。"
           });
           return;
         }
@@ -1265,15 +1787,34 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
 
         const args = [
           "download",
-          "--users",
-          users.join(","),
           "--out",
           outDir,
+          ...toProfileArgs(payload.profile),
           "--output-format",
           "json",
           "--no-color"
         ];
 
+        if (payload.rotate === true) {
+          args.push("--rotate");
+        }
+
+        if (users.length > 0) {
+          args.push("--users", users.join(","));
+        }
+
+        if (likes.length > 0) {
+          args.push("--likes", likes.join(","));
+        }
+
+        if (lists.length > 0) {
+          args.push("--list", lists.join(","));
+        }
+
+        if (bookmarks) {
+          args.push("--bookmarks");
+        }
+
         const engine = payload.engine?.trim();
         if (engine) {
           args.push("--engine", engine);
@@ -1284,8 +1825,32 @@ export async function startGuiServer(input: StartGuiServerInput): Promise<GuiSer
           args.push("--kinds", kinds);
         }
 
+        const filenameTemplate = payload.filenameTemplate?.trim();
+        if (filenameTemplate) {
+          args.push("--filename-template", filenameTemplate);
+        }
+
+        if (payload.writeMetadata === true) {
+          args.push("--write-metadata");
+        }
+
+        if (payload.embedMetadata === true) {
+          args.push("--embed-metadata");
+        }
+
+        const include = payload.include?.trim();
+        if (include) {
+          args.push("--include", include);
+        }
+
+        const maxRate = payload.maxRate?.trim();
+        if (maxRate) {
+          args.push("--max-rate", maxRate);
+        }
+
         args.push(...parsePositiveInt(payload.maxTweets, "--max-tweets"));
         args.push(...parsePositiveInt(payload.concurrency, "--concurrency"));
+        args.push(...parsePositiveInt(payload.userConcurrency, "--user-concurrency"));
         args.push(...parseNonNegativeInt(payload.retry, "--retry"));
         args.push(...parseNonNegativeInt(payload.userRetry, "--user-retry"));
         args.push(...parseNonNegativeInt(payload.userDelayMs, "--user-delay-ms"));
@@ -5,14 +5,40 @@ import { fileURLToPath } from "node:url";
 import {
   createSessionStore,
   createMediaScraper,
+  DEFAULT_ENGINE_CHAIN,
+  listJobJournals,
+  listScraperEngines,
+  listSessionProfiles,
+  COOKIE_BROWSERS,
+  loginFromBrowser,
   loginInteractively,
   loginWithCookies,
   logout,
+  parseDateBound,
+  parseEngineChain,
+  parseTweetReference,
+  resumeBatchJob,
   runBatchJob,
   summarizeJobResult,
-  whoami
+  validateFilenameTemplate,
+  verifyDownloadedMedia,
+  verifyGraphqlSession,
+  whoami,
+  type BatchJobAccount,
+  type CookieBrowser,
+  type SessionHealth,
+  type SessionStore,
+  type WhoAmIResult
 } from "@huangjz11/core";
-import type { FailureDetail, JobResult, MediaKind, ScraperEngine } from "@huangjz11/shared";
+import type {
+  ContentInclusion,
+  FailureDetail,
+  JobEvent,
+  JobResult,
+  MediaKind,
+  MediaSource,
+  ScraperEngine
+} from "@huangjz11/shared";
 import { CliError, EXIT_CODES, toCliError } from "./error-codes.js";
 import {
   createOutputOptions,
@@ -26,6 +52,7 @@ import {
   stripGlobalFlags,
   type OutputOptions
 } from "./output.js";
+import { findJobLocation, recordJobLocation } from "./job-index.js";
 import { createCsvReport, createJsonReport } from "./reporting.js";
 import { startGuiServer } from "./gui-server.js";
 
@@ -35,6 +62,7 @@ const DEFAULT_RETRY_COUNT = 2;
 const DEFAULT_USER_RETRY_COUNT = 1;
 const DEFAULT_USER_DELAY_MS = 0;
 const DEFAULT_REQUEST_DELAY_MS = 0;
+const SESSION_NEW_KEY_ENV = "TWMD_SESSION_NEW_KEY";
 
 type CliCommand =
   | "help"
@@ -42,8 +70,12 @@ type CliCommand =
   | "login-interactive"
   | "whoami"
   | "logout"
+  | "profiles"
+  | "session"
   | "gui"
-  | "download";
+  | "download"
+  | "resume"
+  | "verify";
 
 function usageError(message: string): CliError {
   return new CliError("TWMD_E_USAGE", message);
@@ -52,27 +84,75 @@ function usageError(message: string): CliError {
 function getHelpText(sessionPath: string): string {
   return `
 Usage:
-  twmd login --cookie-file <path> [--loose-cookie]
-  twmd login-interactive [--loose-cookie] [--timeout-ms <ms>]
-  twmd whoami
-  twmd logout
+  twmd login --cookie-file <path> [--loose-cookie] [--profile <name>]
+  twmd login --from-browser firefox|chromium --profile-dir <path> [--loose-cookie] [--profile <name>]
+  twmd login-interactive [--loose-cookie] [--timeout-ms <ms>] [--profile <name>]
+  twmd whoami [--profile <name>] [--verify]
+  twmd logout [--profile <name>]
+  twmd profiles list
+  twmd session rekey [--profile <name>] [--decrypt]
   twmd gui [--host 127.0.0.1] [--port 4310] [--no-open]
-  twmd download --users <u1,u2> --out <dir> [--engine graphql|playwright] [--kinds image,video,gif] [--max-tweets N] [--concurrency N] [--retry N] [--user-retry N] [--user-delay-ms N] [--request-delay-ms N] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
-  twmd download --users-file <file> --out <dir> [--engine graphql|playwright] [--kinds image,video,gif] [--max-tweets N] [--concurrency N] [--retry N] [--user-retry N] [--user-delay-ms N] [--request-delay-ms N] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd download --users <u1,u2> --out <dir> [--profile <name>] [--rotate] [--engine <engine,...>] [--kinds image,video,gif] [--max-tweets N] [--concurrency N] [--user-concurrency N] [--retry N] [--user-retry N] [--user-delay-ms N] [--request-delay-ms N] [--max-rate <rate>] [--host-concurrency <host=N,...>] [--since-last] [--since <date>] [--until <date>] [--include retweets,quotes,replies] [--filename-template <tpl>] [--write-metadata] [--embed-metadata] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd download --users-file <file> --out <dir> [--profile <name>] [--rotate] [--engine <engine,...>] [--kinds image,video,gif] [--max-tweets N] [--concurrency N] [--user-concurrency N] [--retry N] [--user-retry N] [--user-delay-ms N] [--request-delay-ms N] [--max-rate <rate>] [--host-concurrency <host=N,...>] [--since-last] [--since <date>] [--until <date>] [--include retweets,quotes,replies] [--filename-template <tpl>] [--write-metadata] [--embed-metadata] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd download --tweets <url|id,...> --out <dir> [--profile <name>] [--rotate] [--engine <engine,...>] [--kinds image,video,gif] [--concurrency N] [--retry N] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd download --search <query> [--search <query> ...] --out <dir> [--profile <name>] [--rotate] [--engine <engine,...>] [--kinds image,video,gif] [--max-tweets N] [--concurrency N] [--retry N] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd download [--likes <u1,u2>] [--bookmarks] [--list <id1,id2>] --out <dir> [--profile <name>] [--rotate] [--engine <engine,...>] [--kinds image,video,gif] [--max-tweets N] [--concurrency N] [--retry N] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd resume <job-id> [--out <dir>] [--profile <name>] [--rotate] [--json-report <file>] [--csv-report <file>] [--failures-report <file>]
+  twmd resume --out <dir>
+  twmd verify --out <dir> [--repair] [--concurrency N] [--retry N] [--request-delay-ms N]
 
 Command Flags (equivalent):
   twmd --login --cookie-file <path> [--loose-cookie]
+  twmd --login --from-browser firefox|chromium --profile-dir <path> [--loose-cookie]
   twmd --login-interactive [--loose-cookie] [--timeout-ms <ms>]
-  twmd --whoami
+  twmd --whoami [--verify]
   twmd --logout
+  twmd --profiles list
+  twmd --session rekey [--profile <name>] [--decrypt]
   twmd --gui [--host 127.0.0.1] [--port 4310] [--no-open]
   twmd --download --users <u1,u2> --out <dir> [...]
+  twmd --resume <job-id> [--out <dir>]
+
+Session Profiles:
+  --profile <name> selects a named account for login, whoami, logout, download
+  and resume; without it the default profile is used. resume falls back to the
+  profile the job was started with.
+  --rotate lets download and resume switch to the next saved profile when the
+  current one hits a rate limit or its session is rejected; the summary and
+  reports show which profile served each user.
+
+Browser Cookie Import:
+  login --from-browser reads X/Twitter cookies straight from a browser profile
+  directory: cookies.sqlite for Firefox, Cookies for Chromium (on Linux only
+  cookies without a keyring, "v10", can be decrypted). The browser may stay
+  open. --profile-dir is the browser's profile directory; --profile still
+  names the twmd session profile.
+
+Scraper Engines:
+  --engine takes one engine or an ordered fallback chain (default
+  ${DEFAULT_ENGINE_CHAIN.join(",")}). When an engine fails, the next one that supports the target
+  takes over and a warning names both; the summary and reports show which
+  engine served each user.
+${describeScraperEngines()}
+
+Session Encryption:
+  With TWMD_SESSION_KEY set, sessions are saved encrypted (AES-256-GCM, key
+  derived with scrypt); plaintext sessions are encrypted the next time they
+  are read. session rekey re-encrypts saved sessions with TWMD_SESSION_NEW_KEY,
+  or writes them back as plaintext with --decrypt. Without --profile it covers
+  every saved profile.
 
 Global Options:
   --quiet
   --no-color
   --output-format <text|json>
 
+Filename Template:
+  default {folder}/{tweetId}_{mediaId}.{ext}
+  fields  {folder} {username} {tweetId} {mediaId} {index} {kind} {ext} {hint}
+          {relation} {author}
+          {date} {yyyy} {MM} {dd} {HH} {mm} {ss} (UTC, from the tweet time)
+
 Exit Codes:
   0 success
   2 usage/arguments error
@@ -116,6 +196,24 @@ function getOptionValue(args: string[], key: string): string | undefined {
   return inline.slice(key.length + 1);
 }
 
+function getOptionValues(args: string[], key: string): string[] {
+  const values: string[] = [];
+  for (let index = 0; index < args.length; index += 1) {
+    const item = args[index];
+    if (item === key) {
+      const value = args[index + 1];
+      if (value !== undefined) {
+        values.push(value);
+      }
+      index += 1;
+    } else if (item.startsWith(`${key}=`)) {
+      values.push(item.slice(key.length + 1));
+    }
+  }
+
+  return values;
+}
+
 function hasFlag(args: string[], flag: string): boolean {
   return args.includes(flag);
 }
@@ -172,16 +270,199 @@ function parseKinds(args: string[]): MediaKind[] {
   return items as MediaKind[];
 }
 
-function parseEngine(args: string[]): ScraperEngine {
-  const raw = (getOptionValue(args, "--engine") ?? "graphql").trim().toLowerCase();
-  if (raw === "graphql" || raw === "playwright") {
-    return raw;
+function parseEngine(args: string[]): ScraperEngine[] {
+  try {
+    return parseEngineChain(getOptionValue(args, "--engine"));
+  } catch (error) {
+    throw usageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function describeScraperEngines(): string {
+  return listScraperEngines()
+    .map((engine) => {
+      const targets = [
+        "users",
+        ...(engine.capabilities.tweets ? ["tweets"] : []),
+        ...engine.capabilities.sources
+      ];
+      const authPart = engine.capabilities.auth === "required" ? ", needs login" : "";
+      return `  ${engine.name.padEnd(11)} ${engine.description} [${targets.join(", ")}${authPart}]`;
+    })
+    .join("\n");
+}
+
+function parseTweets(args: string[]): string[] {
+  const raw = getOptionValue(args, "--tweets");
+  if (raw === undefined) {
+    return [];
+  }
+
+  const items = raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  if (items.length === 0) {
+    throw usageError("--tweets does not contain any tweet IDs or URLs.");
+  }
+
+  const invalid = items.filter((item) => parseTweetReference(item) === null);
+  if (invalid.length > 0) {
+    throw usageError(`Invalid tweet reference(s): ${invalid.join(", ")}`);
+  }
+
+  return items;
+}
+
+function splitListOption(args: string[], key: string, description: string): string[] {
+  const raw = getOptionValue(args, key);
+  if (raw === undefined) {
+    return [];
+  }
+
+  const items = raw
+    .split(",")
+    .map((item) => item.trim().replace(/^@/, ""))
+    .filter(Boolean);
+
+  if (items.length === 0) {
+    throw usageError(`${key} does not contain any ${description}.`);
+  }
+
+  return items;
+}
+
+function parseSources(args: string[]): MediaSource[] {
+  const sources: MediaSource[] = getOptionValues(args, "--search").map((raw) => {
+    const query = raw.trim();
+    if (!query) {
+      throw usageError("--search cannot be empty.");
+    }
+
+    return { type: "search", query };
+  });
+
+  for (const username of splitListOption(args, "--likes", "usernames")) {
+    sources.push({ type: "likes", username });
+  }
+
+  for (const listId of splitListOption(args, "--list", "list IDs")) {
+    if (!/^\d+$/.test(listId)) {
+      throw usageError(`Invalid list ID: ${listId}`);
+    }
+
+    sources.push({ type: "list", listId });
   }
 
-  throw usageError(`Invalid --engine value: ${raw}. Expected graphql or playwright.`);
+  if (hasFlag(args, "--bookmarks")) {
+    sources.push({ type: "bookmarks" });
+  }
+
+  return sources;
 }
 
-async function parseUsers(args: string[]): Promise<string[]> {
+function parseDateOption(args: string[], key: string): Date | undefined {
+  const raw = getOptionValue(args, key);
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  try {
+    return parseDateBound(raw);
+  } catch {
+    throw usageError(`Invalid value for ${key}: ${raw}. Expected YYYY-MM-DD or an ISO 8601 timestamp.`);
+  }
+}
+
+// Accepts a plain byte count or a K/M/G suffixed rate such as `5MB/s` or
+// `800k`; suffixes are binary (1K = 1024 bytes).
+function parseMaxRate(args: string[]): number | undefined {
+  const raw = getOptionValue(args, "--max-rate");
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const match = raw.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)(?:i?b)?(?:\/s)?$/i);
+  const multipliers: Record<string, number> = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+  const bytesPerSecond = match
+    ? Math.floor(Number.parseFloat(match[1]) * multipliers[match[2].toLowerCase()])
+    : Number.NaN;
+  if (!Number.isFinite(bytesPerSecond) || bytesPerSecond <= 0) {
+    throw usageError(`Invalid value for --max-rate: ${raw}. Expected a rate such as 5MB/s or 800KB/s.`);
+  }
+
+  return bytesPerSecond;
+}
+
+function parseHostConcurrency(args: string[]): Record<string, number> | undefined {
+  const raw = getOptionValue(args, "--host-concurrency");
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const limits: Record<string, number> = {};
+  for (const entry of raw.split(",").map((item) => item.trim()).filter(Boolean)) {
+    const [host, value] = entry.split("=").map((part) => part.trim());
+    const parsed = Number.parseInt(value ?? "", 10);
+    if (!host || !/^\d+$/.test(value ?? "") || parsed < 1) {
+      throw usageError(`Invalid value for --host-concurrency: ${entry}. Expected <host>=<N>.`);
+    }
+
+    limits[host.toLowerCase()] = parsed;
+  }
+
+  if (Object.keys(limits).length === 0) {
+    throw usageError("--host-concurrency cannot be empty.");
+  }
+
+  return limits;
+}
+
+function parseInclude(args: string[]): ContentInclusion | undefined {
+  const raw = getOptionValue(args, "--include");
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const items = raw
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (items.length === 0) {
+    throw usageError("--include cannot be empty.");
+  }
+
+  const allowed = ["retweets", "quotes", "replies"];
+  const invalid = items.filter((item) => !allowed.includes(item));
+  if (invalid.length > 0) {
+    throw usageError(`Invalid --include value(s): ${invalid.join(", ")}`);
+  }
+
+  return {
+    retweets: items.includes("retweets"),
+    quotes: items.includes("quotes"),
+    replies: items.includes("replies")
+  };
+}
+
+function parseFilenameTemplate(args: string[]): string | undefined {
+  const raw = getOptionValue(args, "--filename-template");
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  try {
+    validateFilenameTemplate(raw);
+  } catch (error) {
+    throw usageError(error instanceof Error ? error.message : String(error));
+  }
+
+  return raw;
+}
+
+async function parseUsers(args: string[], allowEmpty: boolean): Promise<string[]> {
   const usersRaw = getOptionValue(args, "--users");
   const usersFile = getOptionValue(args, "--users-file");
 
@@ -190,7 +471,11 @@ async function parseUsers(args: string[]): Promise<string[]> {
   }
 
   if (!usersRaw && !usersFile) {
-    throw usageError("One of --users or --users-file is required.");
+    if (allowEmpty) {
+      return [];
+    }
+
+    throw usageError("One of --users, --users-file, --tweets, --search, --likes, --list or --bookmarks is required.");
   }
 
   if (usersRaw) {
@@ -230,7 +515,11 @@ function formatFailureDetails(details: FailureDetail[]): string {
     .map((detail) => {
       const mediaPart = detail.media
         ? ` tweet=${detail.media.tweetId} media=${detail.media.mediaId}`
-        : "";
+        : detail.tweetId
+          ? ` tweet=${detail.tweetId}`
+          : detail.source
+            ? ` source=${detail.source}`
+            : "";
       const codePart = detail.code ? ` code=${detail.code}` : "";
       const attemptsPart = detail.attempts ? ` attempts=${detail.attempts}` : "";
       return `${detail.timestamp} scope=${detail.scope} user=@${detail.username}${codePart}${attemptsPart}${mediaPart} message=${detail.message}`;
@@ -261,15 +550,93 @@ async function writeReports(result: JobResult, args: string[], output: OutputOpt
   }
 }
 
+function createProfileStore(profile: string | undefined): SessionStore {
+  try {
+    return createSessionStore({ appName: "tw-media-downloader", profile });
+  } catch (error) {
+    throw usageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// With --rotate every other saved profile becomes a fallback account, tried
+// in the order `twmd profiles list` shows them.
+async function resolveFallbackAccounts(
+  args: string[],
+  store: SessionStore,
+  output: OutputOptions
+): Promise<BatchJobAccount[]> {
+  if (!hasFlag(args, "--rotate")) {
+    return [];
+  }
+
+  const stores = await listSessionProfiles({ appName: "tw-media-downloader" });
+  const fallbacks = stores.filter((candidate) => candidate.profile !== store.profile);
+  if (fallbacks.length === 0) {
+    logWarn(output, "No other session profiles to rotate to", { profile: store.profile });
+  }
+
+  return fallbacks.map((candidate) => ({ store: candidate }));
+}
+
+function parseCookieBrowser(args: string[]): CookieBrowser | undefined {
+  const raw = getOptionValue(args, "--from-browser")?.trim().toLowerCase();
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const browser = COOKIE_BROWSERS.find((candidate) => candidate === raw);
+  if (!browser) {
+    throw usageError(`Invalid --from-browser value: ${raw}. Expected ${COOKIE_BROWSERS.join(" or ")}.`);
+  }
+
+  return browser;
+}
+
+async function runBrowserLogin(
+  args: string[],
+  output: OutputOptions,
+  browser: CookieBrowser
+): Promise<void> {
+  const profileDir = getOptionValue(args, "--profile-dir");
+  if (!profileDir) {
+    throw usageError("login --from-browser requires --profile-dir <path>");
+  }
+
+  const looseCookieMode = hasFlag(args, "--loose-cookie");
+  const store = createProfileStore(getOptionValue(args, "--profile"));
+  const session = await loginFromBrowser({
+    store,
+    browser,
+    profileDir,
+    strict: !looseCookieMode
+  });
+
+  logInfo(output, "Login session saved", {
+    profile: store.profile,
+    browser,
+    profileDir,
+    cookieCount: session.cookies.length,
+    updatedAt: session.updatedAt,
+    strict: !looseCookieMode,
+    sessionPath: store.path
+  });
+}
+
 async function runLogin(args: string[], output: OutputOptions): Promise<void> {
+  const browser = parseCookieBrowser(args);
+  if (browser) {
+    await runBrowserLogin(args, output, browser);
+    return;
+  }
+
   const cookieFilePath = getOptionValue(args, "--cookie-file");
   if (!cookieFilePath) {
-    throw usageError("login requires --cookie-file <path>");
+    throw usageError("login requires --cookie-file <path> or --from-browser <browser>");
   }
 
   const looseCookieMode = hasFlag(args, "--loose-cookie");
   const cookieText = await readFile(cookieFilePath, "utf8");
-  const store = createSessionStore({ appName: "tw-media-downloader" });
+  const store = createProfileStore(getOptionValue(args, "--profile"));
   const session = await loginWithCookies({
     store,
     cookieText,
@@ -277,6 +644,7 @@ async function runLogin(args: string[], output: OutputOptions): Promise<void> {
   });
 
   logInfo(output, "Login session saved", {
+    profile: store.profile,
     cookieCount: session.cookies.length,
     updatedAt: session.updatedAt,
     strict: !looseCookieMode,
@@ -287,9 +655,10 @@ async function runLogin(args: string[], output: OutputOptions): Promise<void> {
 async function runInteractiveLogin(args: string[], output: OutputOptions): Promise<void> {
   const looseCookieMode = hasFlag(args, "--loose-cookie");
   const timeoutMs = parsePositiveIntegerOption(args, "--timeout-ms");
-  const store = createSessionStore({ appName: "tw-media-downloader" });
+  const store = createProfileStore(getOptionValue(args, "--profile"));
 
   logInfo(output, "Interactive login started", {
+    profile: store.profile,
     loginUrl: "https://x.com/i/flow/login",
     strict: !looseCookieMode,
     timeoutMs: timeoutMs ?? 180000
@@ -302,6 +671,7 @@ async function runInteractiveLogin(args: string[], output: OutputOptions): Promi
   });
 
   logInfo(output, "Interactive login session saved", {
+    profile: store.profile,
     cookieCount: session.cookies.length,
     updatedAt: session.updatedAt,
     strict: !looseCookieMode,
@@ -309,28 +679,155 @@ async function runInteractiveLogin(args: string[], output: OutputOptions): Promi
   });
 }
 
-async function runWhoami(output: OutputOptions): Promise<void> {
-  const store = createSessionStore({ appName: "tw-media-downloader" });
+// A ct0 refreshed during the check is saved back, as a download would.
+async function verifyProfileSession(store: SessionStore): Promise<SessionHealth | undefined> {
+  const session = await store.load();
+  if (!session) {
+    return undefined;
+  }
+
+  let renewedCookies: string[] | undefined;
+  const health = await verifyGraphqlSession(session, {
+    onCookiesUpdated: (cookies) => {
+      renewedCookies = cookies;
+    }
+  });
+  if (renewedCookies) {
+    await store.save({ ...session, cookies: renewedCookies, updatedAt: new Date().toISOString() });
+  }
+
+  return health;
+}
+
+async function runWhoami(args: string[], output: OutputOptions): Promise<void> {
+  const store = createProfileStore(getOptionValue(args, "--profile"));
   const session = await whoami(store);
 
   if (!session.loggedIn) {
     const missing = session.missingCookieNames?.join(", ") ?? "unknown";
     throw new CliError(
       "TWMD_E_AUTH",
-      `Not logged in or session is incomplete. Missing required cookies: ${missing}`
+      `Profile ${store.profile} is not logged in or its session is incomplete. Missing required cookies: ${missing}`
     );
   }
 
+  const health = hasFlag(args, "--verify") ? await verifyProfileSession(store) : undefined;
+  if (health && health.status !== "active" && health.status !== "rate_limited") {
+    throw new CliError(
+      "TWMD_E_AUTH",
+      `Profile ${store.profile} session is ${health.status}: ${health.detail ?? "rejected by X"}`
+    );
+  }
+
+  if (health?.status === "rate_limited") {
+    logWarn(output, "Session check was rate limited", {
+      profile: store.profile,
+      resetAt: health.rateLimit?.resetAt
+    });
+  }
+
   logInfo(output, "Logged in", {
+    profile: store.profile,
     updatedAt: session.updatedAt,
-    cookieCount: session.cookieCount
+    cookieCount: session.cookieCount,
+    encrypted: store.encrypted,
+    sessionStatus: health?.status,
+    screenName: health?.screenName,
+    userId: health?.userId,
+    rateLimitRemaining: health?.rateLimit?.remaining,
+    rateLimitLimit: health?.rateLimit?.limit,
+    rateLimitResetAt: health?.rateLimit?.resetAt
   });
 }
 
-async function runLogout(output: OutputOptions): Promise<void> {
-  const store = createSessionStore({ appName: "tw-media-downloader" });
+async function runLogout(args: string[], output: OutputOptions): Promise<void> {
+  const store = createProfileStore(getOptionValue(args, "--profile"));
   await logout(store);
-  logInfo(output, "Session cleared", { sessionPath: store.path });
+  logInfo(output, "Session cleared", { profile: store.profile, sessionPath: store.path });
+}
+
+async function runProfiles(args: string[], output: OutputOptions): Promise<void> {
+  const subcommand = args.find((item) => !item.startsWith("-")) ?? "list";
+  if (subcommand !== "list") {
+    throw usageError(`Unknown profiles subcommand: ${subcommand}. Expected list.`);
+  }
+
+  const stores = await listSessionProfiles({ appName: "tw-media-downloader" });
+  for (const store of stores) {
+    // An encrypted session that cannot be unlocked is listed, not fatal.
+    let session: WhoAmIResult;
+    let error: string | undefined;
+    try {
+      session = await whoami(store);
+    } catch (caught) {
+      session = { loggedIn: false };
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    logInfo(output, "Session profile", {
+      profile: store.profile,
+      loggedIn: session.loggedIn,
+      updatedAt: session.updatedAt,
+      cookieCount: session.cookieCount,
+      sessionPath: store.path,
+      error
+    });
+  }
+
+  if (stores.length === 0) {
+    logInfo(output, "No session profiles found", {
+      hint: "twmd login --cookie-file <path> [--profile <name>]"
+    });
+  }
+}
+
+// Without --profile every saved profile is rekeyed, since they all read the
+// same TWMD_SESSION_KEY.
+async function runSession(args: string[], output: OutputOptions): Promise<void> {
+  const subcommand = args[0] && !args[0].startsWith("-") ? args[0] : undefined;
+  if (subcommand !== "rekey") {
+    throw usageError(`Unknown session subcommand: ${subcommand ?? "(none)"}. Expected rekey.`);
+  }
+
+  const decrypt = hasFlag(args, "--decrypt");
+  const nextKey = process.env[SESSION_NEW_KEY_ENV] || undefined;
+  if (decrypt && nextKey) {
+    throw usageError(`--decrypt and ${SESSION_NEW_KEY_ENV} cannot be used together.`);
+  }
+
+  if (!decrypt && !nextKey) {
+    throw usageError(
+      `session rekey needs the new key in ${SESSION_NEW_KEY_ENV}, or --decrypt to store sessions as plaintext.`
+    );
+  }
+
+  const explicitProfile = getOptionValue(args, "--profile");
+  const stores = explicitProfile
+    ? [createProfileStore(explicitProfile)]
+    : await listSessionProfiles({ appName: "tw-media-downloader" });
+
+  // Every session is unlocked before any is rewritten, so a wrong current key
+  // leaves them all as they were.
+  for (const store of stores) {
+    if (!(await store.load())) {
+      throw new CliError("TWMD_E_AUTH", `Profile ${store.profile} has no saved session to rekey.`);
+    }
+  }
+
+  for (const store of stores) {
+    await store.rekey(nextKey);
+    logInfo(output, "Session rekeyed", {
+      profile: store.profile,
+      encrypted: store.encrypted,
+      sessionPath: store.path
+    });
+  }
+
+  if (stores.length === 0) {
+    logInfo(output, "No session profiles found", {
+      hint: "twmd login --cookie-file <path> [--profile <name>]"
+    });
+  }
 }
 
 function parseGuiPort(args: string[]): number {
@@ -402,12 +899,15 @@ async function runDownload(args: string[], output: OutputOptions): Promise<JobRe
     throw usageError("download requires --out <dir>");
   }
 
-  const users = await parseUsers(args);
+  const tweets = parseTweets(args);
+  const sources = parseSources(args);
+  const users = await parseUsers(args, tweets.length > 0 || sources.length > 0);
   const mediaKinds = parseKinds(args);
   const engine = parseEngine(args);
 
   const maxTweetsPerUser = parsePositiveIntegerOption(args, "--max-tweets");
   const concurrency = parsePositiveIntegerOption(args, "--concurrency") ?? DEFAULT_CONCURRENCY;
+  const userConcurrency = parsePositiveIntegerOption(args, "--user-concurrency");
   const retryCount = parseNonNegativeIntegerOption(args, "--retry") ?? DEFAULT_RETRY_COUNT;
   const userRetryCount =
     parseNonNegativeIntegerOption(args, "--user-retry") ?? DEFAULT_USER_RETRY_COUNT;
@@ -415,43 +915,118 @@ async function runDownload(args: string[], output: OutputOptions): Promise<JobRe
     parseNonNegativeIntegerOption(args, "--user-delay-ms") ?? DEFAULT_USER_DELAY_MS;
   const requestDelayMs =
     parseNonNegativeIntegerOption(args, "--request-delay-ms") ?? DEFAULT_REQUEST_DELAY_MS;
+  const maxBytesPerSecond = parseMaxRate(args);
+  const hostConcurrency = parseHostConcurrency(args);
+  const sinceLast = hasFlag(args, "--since-last");
+  const since = parseDateOption(args, "--since");
+  const until = parseDateOption(args, "--until");
+  if (since && until && since.getTime() >= until.getTime()) {
+    throw usageError("--since must be earlier than --until.");
+  }
+  const include = parseInclude(args);
+  const filenameTemplate = parseFilenameTemplate(args);
+  const writeMetadata = hasFlag(args, "--write-metadata");
+  const embedMetadata = hasFlag(args, "--embed-metadata");
 
-  const store = createSessionStore({ appName: "tw-media-downloader" });
+  const store = createProfileStore(getOptionValue(args, "--profile"));
+  const accounts = await resolveFallbackAccounts(args, store, output);
   const scraper = createMediaScraper({
     engine
   });
 
+  const controller = new AbortController();
   const job = runBatchJob({
     store,
     scraper,
+    accounts,
     users,
+    tweets,
+    sources,
     outputDir,
     engine,
     mediaKinds,
     maxTweetsPerUser,
     concurrency,
+    userConcurrency,
     retryCount,
     userRetryCount,
     userDelayMs,
-    perRequestDelayMs: requestDelayMs
+    perRequestDelayMs: requestDelayMs,
+    maxBytesPerSecond,
+    hostConcurrency,
+    sinceLast,
+    since: since?.toISOString(),
+    until: until?.toISOString(),
+    include,
+    filenameTemplate,
+    writeMetadata,
+    embedMetadata,
+    signal: controller.signal
   });
 
   logInfo(output, "Download job started", {
+    profile: store.profile,
+    fallbackProfiles: accounts.length > 0 ? accounts.map((account) => account.store.profile) : undefined,
     users: users.length,
+    tweets: tweets.length,
+    sources: sources.length,
     outputDir,
-    engine
+    engine,
+    userConcurrency,
+    maxBytesPerSecond,
+    hostConcurrency,
+    sinceLast,
+    since: since?.toISOString(),
+    until: until?.toISOString(),
+    include,
+    filenameTemplate,
+    writeMetadata,
+    embedMetadata
   });
 
+  return await consumeBatchJob(job, controller, args, output, store, outputDir);
+}
+
+async function consumeBatchJob(
+  job: AsyncGenerator<JobEvent, JobResult, void>,
+  controller: AbortController,
+  args: string[],
+  output: OutputOptions,
+  store: SessionStore,
+  outputDir: string
+): Promise<JobResult> {
   let result: JobResult | undefined;
 
-  while (true) {
-    const current = await job.next();
-    if (current.done) {
-      result = current.value;
-      break;
+  // The first signal lets the job stop cleanly and still write its reports;
+  // a second one exits immediately.
+  const onInterrupt = (): void => {
+    if (controller.signal.aborted) {
+      process.exit(EXIT_CODES.CANCELLED);
     }
 
-    logJobEvent(output, current.value);
+    logWarn(output, "Cancelling job, press Ctrl-C again to exit immediately");
+    controller.abort();
+  };
+  process.on("SIGINT", onInterrupt);
+  process.on("SIGTERM", onInterrupt);
+
+  try {
+    while (true) {
+      const current = await job.next();
+      if (current.done) {
+        result = current.value;
+        break;
+      }
+
+      if (current.value.type === "job_started" && current.value.jobId) {
+        await recordJobLocation(store.baseDir, current.value.jobId, resolve(outputDir), store.profile);
+      }
+
+      logJobEvent(output, current.value);
+    }
+  } finally {
+    process.off("SIGINT", onInterrupt);
+    process.off("SIGTERM", onInterrupt);
   }
 
   if (!result) {
@@ -465,8 +1040,123 @@ async function runDownload(args: string[], output: OutputOptions): Promise<JobRe
   return result;
 }
 
+async function runResume(args: string[], output: OutputOptions): Promise<JobResult | undefined> {
+  const explicitProfile = getOptionValue(args, "--profile");
+  const jobId = args[0] && !args[0].startsWith("-") ? args[0] : undefined;
+  const explicitOutputDir = getOptionValue(args, "--out");
+
+  if (!jobId) {
+    if (!explicitOutputDir) {
+      throw usageError("resume requires <job-id>, or --out <dir> to list its jobs.");
+    }
+
+    const jobs = await listJobJournals(explicitOutputDir);
+    for (const job of jobs) {
+      logInfo(output, "Job", {
+        jobId: job.jobId,
+        status: job.status,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        users: job.users,
+        tweets: job.tweets,
+        sources: job.sources
+      });
+    }
+
+    if (jobs.length === 0) {
+      logInfo(output, "No jobs recorded", { outputDir: explicitOutputDir });
+    }
+    return undefined;
+  }
+
+  const indexed = await findJobLocation(createProfileStore(explicitProfile).baseDir, jobId);
+  const outputDir = explicitOutputDir ?? indexed?.outputDir;
+  if (!outputDir) {
+    throw usageError(`Unknown job ${jobId}. Pass --out <dir> with the job's output directory.`);
+  }
+
+  const store = createProfileStore(explicitProfile ?? indexed?.profile);
+  const accounts = await resolveFallbackAccounts(args, store, output);
+  const controller = new AbortController();
+  const job = resumeBatchJob({
+    store,
+    accounts,
+    outputDir,
+    jobId,
+    signal: controller.signal
+  });
+
+  logInfo(output, "Resuming download job", {
+    jobId,
+    outputDir,
+    profile: store.profile,
+    fallbackProfiles: accounts.length > 0 ? accounts.map((account) => account.store.profile) : undefined
+  });
+  return await consumeBatchJob(job, controller, args, output, store, outputDir);
+}
+
+async function runVerify(args: string[], output: OutputOptions): Promise<boolean> {
+  const outputDir = getOptionValue(args, "--out");
+  if (!outputDir) {
+    throw usageError("verify requires --out <dir>");
+  }
+
+  const repair = hasFlag(args, "--repair");
+  const result = await verifyDownloadedMedia({
+    outputDir,
+    repair,
+    concurrency: parsePositiveIntegerOption(args, "--concurrency") ?? DEFAULT_CONCURRENCY,
+    retryCount: parseNonNegativeIntegerOption(args, "--retry") ?? DEFAULT_RETRY_COUNT,
+    perRequestDelayMs:
+      parseNonNegativeIntegerOption(args, "--request-delay-ms") ?? DEFAULT_REQUEST_DELAY_MS
+  });
+
+  for (const problem of result.problems) {
+    logWarn(output, "Integrity check failed", {
+      status: problem.status,
+      path: problem.path,
+      username: problem.username,
+      tweetId: problem.tweetId,
+      mediaId: problem.mediaId,
+      expectedSize: problem.expectedSize,
+      actualSize: problem.actualSize
+    });
+  }
+
+  logInfo(output, "Verify finished", {
+    outputDir,
+    checked: result.checked,
+    ok: result.ok,
+    missing: result.missing,
+    mismatched: result.mismatched,
+    unverified: result.unverified
+  });
+
+  if (result.repair) {
+    logInfo(output, "Repair finished", {
+      requeued: result.repair.total,
+      downloaded: result.repair.downloaded,
+      failed: result.repair.failed,
+      skipped: result.repair.skipped
+    });
+    logFailureDetails(
+      output,
+      result.repair.failureDetails,
+      formatFailureDetails(result.repair.failureDetails)
+    );
+    return result.repair.failed === 0;
+  }
+
+  return result.problems.length === 0;
+}
+
 function hasFinalFailures(result: JobResult): boolean {
-  return result.failedUsers > 0 || result.failed > 0;
+  return (
+    result.failedUsers > 0 ||
+    result.failedTweets > 0 ||
+    result.failedSources > 0 ||
+    result.failed > 0
+  );
 }
 
 function validateGlobalOutputFlags(args: string[]): void {
@@ -505,6 +1195,14 @@ function normalizeCommandToken(token: string): CliCommand | undefined {
     return "logout";
   }
 
+  if (token === "profiles" || token === "--profiles") {
+    return "profiles";
+  }
+
+  if (token === "session" || token === "--session") {
+    return "session";
+  }
+
   if (token === "gui" || token === "--gui") {
     return "gui";
   }
@@ -513,6 +1211,15 @@ function normalizeCommandToken(token: string): CliCommand | undefined {
     return "download";
   }
 
+  if (token === "resume" || token === "--resume") {
+    return "resume";
+  }
+
+  // No flag form: `--verify` is whoami's online check.
+  if (token === "verify") {
+    return "verify";
+  }
+
   return undefined;
 }
 
@@ -562,9 +1269,9 @@ function resolveCommandAndArgs(argv: string[]): { command: CliCommand; args: str
 async function main(): Promise<void> {
   const store = createSessionStore({ appName: "tw-media-downloader" });
   const argv = process.argv.slice(2);
-  const { command, args: rawArgs } = resolveCommandAndArgs(argv);
 
   try {
+    const { command, args: rawArgs } = resolveCommandAndArgs(argv);
     validateGlobalOutputFlags(rawArgs);
     const output = createOutputOptions(rawArgs);
     const args = stripGlobalFlags(rawArgs);
@@ -585,12 +1292,22 @@ async function main(): Promise<void> {
     }
 
     if (command === "whoami") {
-      await runWhoami(output);
+      await runWhoami(args, output);
       return;
     }
 
     if (command === "logout") {
-      await runLogout(output);
+      await runLogout(args, output);
+      return;
+    }
+
+    if (command === "profiles") {
+      await runProfiles(args, output);
+      return;
+    }
+
+    if (command === "session") {
+      await runSession(args, output);
       return;
     }
 
@@ -599,11 +1316,22 @@ async function main(): Promise<void> {
       return;
     }
 
-    if (command === "download") {
-      const result = await runDownload(args, output);
-      if (hasFinalFailures(result)) {
+    if (command === "download" || command === "resume") {
+      const result = command === "download" ? await runDownload(args, output) : await runResume(args, output);
+      if (result?.cancelled) {
+        logWarn(output, "Job cancelled", {
+          jobId: result.jobId,
+          resume: result.jobId ? `twmd resume ${result.jobId}` : undefined
+        });
+        process.exitCode = EXIT_CODES.CANCELLED;
+        return;
+      }
+
+      if (result && hasFinalFailures(result)) {
         logWarn(output, "Completed with failures", {
           failedUsers: result.failedUsers,
+          failedTweets: result.failedTweets,
+          failedSources: result.failedSources,
           failedMedia: result.failed
         });
         process.exitCode = EXIT_CODES.PARTIAL_FAILURE;
@@ -611,10 +1339,19 @@ async function main(): Promise<void> {
       return;
     }
 
+    if (command === "verify") {
+      const clean = await runVerify(args, output);
+      if (!clean) {
+        logWarn(output, "Verify found problems", { repaired: hasFlag(args, "--repair") });
+        process.exitCode = EXIT_CODES.PARTIAL_FAILURE;
+      }
+      return;
+    }
+
     throw usageError(`Unknown command: ${command}`);
   } catch (error) {
     const cliError = toCliError(error);
-    const output = createOutputOptions(rawArgs);
+    const output = createOutputOptions(argv);
     logError(output, `Error [${cliError.code}]`, {
       exitCode: cliError.exitCode,
       detail: cliError.message
@@ -0,0 +1,69 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+export interface JobIndexEntry {
+  outputDir: string;
+  startedAt: string;
+  // Session profile the job ran with; resume uses it unless told otherwise.
+  profile?: string;
+}
+
+interface JobIndexFile {
+  version: number;
+  jobs: Record<string, JobIndexEntry>;
+}
+
+const JOB_INDEX_VERSION = 1;
+const JOB_INDEX_FILE_NAME = "jobs.json";
+const JOB_INDEX_LIMIT = 200;
+
+// Journals live in each output directory; this index only remembers where,
+// so `twmd resume <job-id>` works without repeating --out. It is shared by
+// all session profiles.
+function getJobIndexPath(dataDir: string): string {
+  return join(dataDir, JOB_INDEX_FILE_NAME);
+}
+
+async function loadJobIndex(path: string): Promise<Record<string, JobIndexEntry>> {
+  try {
+    const parsed = JSON.parse(await readFile(path, "utf8")) as Partial<JobIndexFile>;
+    if (parsed.version === JOB_INDEX_VERSION && parsed.jobs && typeof parsed.jobs === "object") {
+      return parsed.jobs;
+    }
+  } catch {
+  }
+
+  return {};
+}
+
+export async function recordJobLocation(
+  dataDir: string,
+  jobId: string,
+  outputDir: string,
+  profile: string
+): Promise<void> {
+  const path = getJobIndexPath(dataDir);
+  const jobs = await loadJobIndex(path);
+  jobs[jobId] = { outputDir, startedAt: new Date().toISOString(), profile };
+
+  const kept = Object.entries(jobs)
+    .sort(([, a], [, b]) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, JOB_INDEX_LIMIT);
+  const payload: JobIndexFile = {
+    version: JOB_INDEX_VERSION,
+    jobs: Object.fromEntries(kept)
+  };
+
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, JSON.stringify(payload, null, 2));
+    await rename(tempPath, path);
+  } catch {
+  }
+}
+
+export async function findJobLocation(dataDir: string, jobId: string): Promise<JobIndexEntry | undefined> {
+  const jobs = await loadJobIndex(getJobIndexPath(dataDir));
+  return jobs[jobId];
+}
@@ -4,17 +4,28 @@ export interface DownloadReportSummary {
   totalUsers: number;
   succeededUsers: number;
   failedUsers: number;
+  totalTweets: number;
+  succeededTweets: number;
+  failedTweets: number;
+  totalSources: number;
+  succeededSources: number;
+  failedSources: number;
   totalMedia: number;
   downloaded: number;
   failed: number;
   skipped: number;
   failureDetailsCount: number;
+  cancelled: boolean;
 }
 
 export interface DownloadReportJson {
   generatedAt: string;
   summary: DownloadReportSummary;
   failures: FailureDetail[];
+  // Session profile that served each user, when the job switched accounts.
+  accounts?: Record<string, string>;
+  // Scraper engine that served each user.
+  engines?: Record<string, string>;
 }
 
 function escapeCsvValue(value: string): string {
@@ -30,11 +41,18 @@ function toSummary(result: JobResult): DownloadReportSummary {
     totalUsers: result.totalUsers,
     succeededUsers: result.succeededUsers,
     failedUsers: result.failedUsers,
+    totalTweets: result.totalTweets,
+    succeededTweets: result.succeededTweets,
+    failedTweets: result.failedTweets,
+    totalSources: result.totalSources,
+    succeededSources: result.succeededSources,
+    failedSources: result.failedSources,
     totalMedia: result.totalMedia,
     downloaded: result.downloaded,
     failed: result.failed,
     skipped: result.skipped,
-    failureDetailsCount: result.failureDetails.length
+    failureDetailsCount: result.failureDetails.length,
+    cancelled: result.cancelled === true
   };
 }
 
@@ -42,7 +60,9 @@ export function createJsonReport(result: JobResult): DownloadReportJson {
   return {
     generatedAt: new Date().toISOString(),
     summary: toSummary(result),
-    failures: result.failureDetails
+    failures: result.failureDetails,
+    accounts: result.userAccounts,
+    engines: result.userEngines
   };
 }
 
@@ -67,7 +87,17 @@ export function createCsvReport(result: JobResult): string {
     "url",
     "target_path",
     "message",
-    "timestamp"
+    "timestamp",
+    "total_tweets",
+    "succeeded_tweets",
+    "failed_tweets",
+    "total_sources",
+    "succeeded_sources",
+    "failed_sources",
+    "source",
+    "relation",
+    "account",
+    "engine"
   ];
 
   const generatedAt = new Date().toISOString();
@@ -93,6 +123,16 @@ export function createCsvReport(result: JobResult): string {
     "",
     "",
     "",
+    "",
+    String(summary.totalTweets),
+    String(summary.succeededTweets),
+    String(summary.failedTweets),
+    String(summary.totalSources),
+    String(summary.succeededSources),
+    String(summary.failedSources),
+    "",
+    "",
+    "",
     ""
   ];
 
@@ -111,15 +151,91 @@ export function createCsvReport(result: JobResult): string {
     detail.username,
     detail.code ?? "",
     detail.attempts ? String(detail.attempts) : "",
-    detail.media?.tweetId ?? "",
+    detail.media?.tweetId ?? detail.tweetId ?? "",
     detail.media?.mediaId ?? "",
     detail.media?.url ?? "",
     detail.media?.targetPath ?? "",
     detail.message,
-    detail.timestamp
+    detail.timestamp,
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    detail.source ?? "",
+    detail.media?.relation ?? "",
+    "",
+    ""
+  ]);
+
+  const accountRows = Object.entries(result.userAccounts ?? {}).map(([username, profile]) => [
+    "account",
+    generatedAt,
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "user",
+    username,
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    profile,
+    ""
+  ]);
+
+  const engineRows = Object.entries(result.userEngines ?? {}).map(([username, engine]) => [
+    "engine",
+    generatedAt,
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "user",
+    username,
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    engine
   ]);
 
-  const lines = [header, summaryRow, ...failureRows].map((columns) =>
+  const lines = [header, summaryRow, ...failureRows, ...accountRows, ...engineRows].map((columns) =>
     columns.map((value) => escapeCsvValue(value)).join(",")
   );
 
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const CLI_PATH = fileURLToPath(new URL("../src/index.js", import.meta.url));
+
+// Loaded into the CLI process in place of the X API: verify_credentials
+// answers for a logged-in account and every other request fails.
+const FETCH_STUB = `
+globalThis.fetch = async (url) => {
+  if (String(url).includes("account/verify_credentials.json")) {
+    return new Response(JSON.stringify({ screen_name: "stub_account", id_str: "42" }), { status: 200 });
+  }
+
+  return new Response("", { status: 404 });
+};
+`;
+
+interface CliRun {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+describe("twmd", () => {
+  let home: string;
+  let stubPath: string;
+
+  before(async () => {
+    home = await mkdtemp(join(tmpdir(), "twmd-cli-"));
+    stubPath = join(home, "fetch-stub.mjs");
+    await writeFile(stubPath, FETCH_STUB);
+    await mkdir(join(home, ".tw-media-downloader"), { recursive: true });
+    await writeFile(
+      join(home, ".tw-media-downloader", "session.json"),
+      JSON.stringify({
+        cookies: ["auth_token=token", "ct0=csrf"],
+        updatedAt: new Date().toISOString(),
+        valid: true
+      })
+    );
+  });
+
+  after(async () => {
+    await rm(home, { recursive: true, force: true });
+  });
+
+  async function runCli(args: string[]): Promise<CliRun> {
+    const env: NodeJS.ProcessEnv = { ...process.env, HOME: home };
+    delete env.TWMD_SESSION_KEY;
+    return await new Promise((resolve) => {
+      execFile(
+        process.execPath,
+        ["--import", pathToFileURL(stubPath).href, CLI_PATH, ...args, "--output-format", "json", "--no-color"],
+        { env, timeout: 60_000 },
+        (error, stdout, stderr) => {
+          const exitCode = error && typeof error.code === "number" ? error.code : error ? 1 : 0;
+          resolve({ exitCode, stdout, stderr });
+        }
+      );
+    });
+  }
+
+  test("passes --verify to whoami instead of reading it as a command", async () => {
+    const run = await runCli(["whoami", "--verify"]);
+
+    assert.equal(run.exitCode, 0, run.stderr);
+    assert.match(run.stdout, /"screenName":"stub_account"/);
+    assert.match(run.stdout, /"sessionStatus":"active"/);
+  });
+
+  test("runs the verify command by name", async () => {
+    const run = await runCli(["verify"]);
+
+    assert.equal(run.exitCode, 2);
+    assert.match(run.stdout + run.stderr, /verify requires --out <dir>/);
+  });
+
+  test("exits with a partial failure when a tweet cannot be resolved", async () => {
+    const run = await runCli(["download", "--tweets", "20", "--out", join(home, "downloads"), "--retry", "0"]);
+
+    assert.equal(run.exitCode, 4, run.stderr);
+    assert.match(run.stdout, /"failedTweets":1/);
+  });
+
+  test("exits with a partial failure when a timeline source fails", async () => {
+    const run = await runCli(["download", "--search", "cats", "--out", join(home, "downloads"), "--retry", "0"]);
+
+    assert.equal(run.exitCode, 4, run.stderr);
+    assert.match(run.stdout, /"failedSources":1/);
+  });
+
+  test("reports two commands as a usage error", async () => {
+    const run = await runCli(["whoami", "logout"]);
+
+    assert.equal(run.exitCode, 2);
+    assert.match(run.stdout + run.stderr, /Multiple commands provided: whoami and logout/);
+  });
+});
@@ -0,0 +1,153 @@
+import { createDecipheriv, pbkdf2Sync } from "node:crypto";
+import { access } from "node:fs/promises";
+import { join } from "node:path";
+import { readSqliteTable, type SqliteRow, type SqliteValue } from "../utils/sqlite-reader.js";
+
+export type CookieBrowser = "firefox" | "chromium";
+
+export const COOKIE_BROWSERS: CookieBrowser[] = ["firefox", "chromium"];
+
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+}
+
+const FIREFOX_COOKIE_FILES = ["cookies.sqlite"];
+// Newer Chromium builds moved the database under Network/; a user data
+// directory is accepted too and resolves to its Default profile.
+const CHROMIUM_COOKIE_FILES = [
+  join("Network", "Cookies"),
+  "Cookies",
+  join("Default", "Network", "Cookies"),
+  join("Default", "Cookies")
+];
+
+// Linux Chromium without a keyring encrypts cookies with this fixed password
+// ("v10"). Values sealed with a keyring secret ("v11") cannot be read here.
+const CHROMIUM_V10_PREFIX = "v10";
+const CHROMIUM_V11_PREFIX = "v11";
+const CHROMIUM_V10_KEY = pbkdf2Sync("peanuts", "saltysalt", 1, 16, "sha1");
+const CHROMIUM_IV = Buffer.alloc(16, " ");
+// From this database version on, decrypted values start with a SHA-256 of the
+// cookie's host.
+const CHROMIUM_HOST_DIGEST_VERSION = 24;
+const CHROMIUM_HOST_DIGEST_LENGTH = 32;
+
+async function findCookieDatabase(profileDir: string, candidates: string[]): Promise<string> {
+  for (const candidate of candidates) {
+    const path = join(profileDir, candidate);
+    try {
+      await access(path);
+      return path;
+    } catch {
+    }
+  }
+
+  throw new Error(`No cookie database found in ${profileDir} (looked for ${candidates.join(", ")}).`);
+}
+
+function asText(value: SqliteValue | undefined): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  return Buffer.isBuffer(value) ? value.toString("utf8") : "";
+}
+
+function asFlag(value: SqliteValue | undefined): boolean {
+  return typeof value === "number" && value !== 0;
+}
+
+async function readFirefoxCookies(
+  profileDir: string,
+  includeDomain: (domain: string) => boolean
+): Promise<BrowserCookie[]> {
+  const path = await findCookieDatabase(profileDir, FIREFOX_COOKIE_FILES);
+  const rows = await readSqliteTable(path, "moz_cookies");
+
+  return rows
+    .filter((row) => includeDomain(asText(row.host)))
+    .map((row) => ({
+      name: asText(row.name),
+      value: asText(row.value),
+      domain: asText(row.host),
+      path: asText(row.path) || "/",
+      secure: asFlag(row.isSecure),
+      httpOnly: asFlag(row.isHttpOnly)
+    }));
+}
+
+async function readChromiumDatabaseVersion(path: string): Promise<number> {
+  try {
+    const meta = await readSqliteTable(path, "meta");
+    const version = meta.find((row) => row.key === "version")?.value;
+    return Number(version) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function decryptChromiumValue(row: SqliteRow, databaseVersion: number): string {
+  const encrypted = row.encrypted_value;
+  if (!Buffer.isBuffer(encrypted) || encrypted.length === 0) {
+    return asText(row.value);
+  }
+
+  const prefix = encrypted.toString("latin1", 0, 3);
+  if (prefix === CHROMIUM_V11_PREFIX) {
+    throw new Error(
+      `Cookie ${asText(row.name)} is encrypted with the system keyring (v11), which is not supported. Start Chromium with --password-store=basic or export cookies to a file instead.`
+    );
+  }
+
+  if (prefix !== CHROMIUM_V10_PREFIX) {
+    throw new Error(`Cookie ${asText(row.name)} uses an unsupported encryption format.`);
+  }
+
+  const decipher = createDecipheriv("aes-128-cbc", CHROMIUM_V10_KEY, CHROMIUM_IV);
+  let decrypted = Buffer.concat([decipher.update(encrypted.subarray(3)), decipher.final()]);
+  if (databaseVersion >= CHROMIUM_HOST_DIGEST_VERSION) {
+    decrypted = decrypted.subarray(CHROMIUM_HOST_DIGEST_LENGTH);
+  }
+
+  return decrypted.toString("utf8");
+}
+
+async function readChromiumCookies(
+  profileDir: string,
+  includeDomain: (domain: string) => boolean
+): Promise<BrowserCookie[]> {
+  const path = await findCookieDatabase(profileDir, CHROMIUM_COOKIE_FILES);
+  const databaseVersion = await readChromiumDatabaseVersion(path);
+  const rows = await readSqliteTable(path, "cookies");
+
+  return rows
+    .filter((row) => includeDomain(asText(row.host_key)))
+    .map((row) => ({
+      name: asText(row.name),
+      value: decryptChromiumValue(row, databaseVersion),
+      domain: asText(row.host_key),
+      path: asText(row.path) || "/",
+      // Older databases name these columns secure/httponly.
+      secure: asFlag(row.is_secure ?? row.secure),
+      httpOnly: asFlag(row.is_httponly ?? row.httponly)
+    }));
+}
+
+// Only cookies whose domain passes includeDomain are decrypted, so an
+// unreadable cookie for some other site does not fail the import.
+export async function readBrowserCookies(
+  browser: CookieBrowser,
+  profileDir: string,
+  includeDomain: (domain: string) => boolean
+): Promise<BrowserCookie[]> {
+  if (browser === "firefox") {
+    return readFirefoxCookies(profileDir, includeDomain);
+  }
+
+  return readChromiumCookies(profileDir, includeDomain);
+}
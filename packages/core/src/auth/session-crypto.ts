@@ -0,0 +1,140 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from "node:crypto";
+import type { SessionData } from "@huangjz11/shared";
+
+// On-disk shape of an encrypted session. Everything needed to derive the key
+// again except the passphrase itself travels with the file, so the format
+// does not depend on any OS keychain.
+export interface EncryptedSessionFile {
+  format: typeof ENCRYPTED_SESSION_FORMAT;
+  version: number;
+  kdf: {
+    name: "scrypt";
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+  };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ENCRYPTED_SESSION_FORMAT = "twmd-encrypted-session";
+const ENCRYPTED_SESSION_VERSION = 1;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const SCRYPT_COST = 1 << 15;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+// Files carry their own scrypt parameters; anything above these is refused
+// rather than allowed to exhaust memory.
+const MAX_SCRYPT_COST = 1 << 17;
+const MAX_SCRYPT_BLOCK_SIZE = 16;
+const MAX_SCRYPT_PARALLELIZATION = 4;
+
+function deriveKey(passphrase: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  const cost = options.N ?? SCRYPT_COST;
+  const blockSize = options.r ?? SCRYPT_BLOCK_SIZE;
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      KEY_LENGTH,
+      { ...options, maxmem: 256 * cost * blockSize },
+      (error, key) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        resolve(key);
+      }
+    );
+  });
+}
+
+function isSupportedKdf(kdf: EncryptedSessionFile["kdf"] | undefined): boolean {
+  return (
+    kdf?.name === "scrypt" &&
+    typeof kdf.salt === "string" &&
+    kdf.N > 1 &&
+    kdf.N <= MAX_SCRYPT_COST &&
+    kdf.r > 0 &&
+    kdf.r <= MAX_SCRYPT_BLOCK_SIZE &&
+    kdf.p > 0 &&
+    kdf.p <= MAX_SCRYPT_PARALLELIZATION
+  );
+}
+
+export function isEncryptedSessionFile(value: unknown): value is EncryptedSessionFile {
+  const candidate = value as Partial<EncryptedSessionFile> | null;
+  return (
+    typeof candidate === "object" &&
+    candidate !== null &&
+    candidate.format === ENCRYPTED_SESSION_FORMAT
+  );
+}
+
+export async function encryptSessionData(
+  data: SessionData,
+  passphrase: string
+): Promise<EncryptedSessionFile> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(passphrase, salt, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION
+  });
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), "utf8"), cipher.final()]);
+
+  return {
+    format: ENCRYPTED_SESSION_FORMAT,
+    version: ENCRYPTED_SESSION_VERSION,
+    kdf: {
+      name: "scrypt",
+      salt: salt.toString("base64"),
+      N: SCRYPT_COST,
+      r: SCRYPT_BLOCK_SIZE,
+      p: SCRYPT_PARALLELIZATION
+    },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: encrypted.toString("base64")
+  };
+}
+
+// A wrong passphrase and a tampered file look the same to GCM: both fail the
+// authentication tag check and surface as one error.
+export async function decryptSessionData(
+  file: EncryptedSessionFile,
+  passphrase: string
+): Promise<SessionData> {
+  if (file.version !== ENCRYPTED_SESSION_VERSION || file.cipher !== "aes-256-gcm") {
+    throw new Error(`Unsupported encrypted session version: ${file.version}.`);
+  }
+
+  if (!isSupportedKdf(file.kdf)) {
+    throw new Error("Unsupported encrypted session key parameters.");
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(file.kdf.salt, "base64"), {
+    N: file.kdf.N,
+    r: file.kdf.r,
+    p: file.kdf.p
+  });
+
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  const decrypted = Buffer.concat([
+    decipher.update(Buffer.from(file.data, "base64")),
+    decipher.final()
+  ]);
+
+  return JSON.parse(decrypted.toString("utf8")) as SessionData;
+}
@@ -1,21 +1,35 @@
 import { constants as fsConstants } from "node:fs";
-import { access, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { access, mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 import { chromium, type Browser, type BrowserContext, type Cookie } from "playwright";
 import type { SessionData } from "@huangjz11/shared";
 import { nowIso } from "../utils/time.js";
+import { readBrowserCookies, type CookieBrowser } from "./browser-cookies.js";
+import { decryptSessionData, encryptSessionData, isEncryptedSessionFile } from "./session-crypto.js";
 
 export interface SessionStoreOptions {
   appName: string;
   sessionFileName?: string;
+  // Named account; omitted or "default" keeps the original single session.
+  profile?: string;
+  // Session key for encryption at rest; defaults to TWMD_SESSION_KEY. Without
+  // one, sessions are stored as plaintext JSON like before.
+  passphrase?: string;
 }
 
 export interface SessionStore {
+  profile: string;
   path: string;
+  // App data directory shared by every profile.
+  baseDir: string;
+  // Whether a session key is set, so saves write the encrypted format.
+  encrypted: boolean;
   exists(): Promise<boolean>;
   load(): Promise<SessionData | null>;
   save(data: SessionData): Promise<void>;
+  // Re-encrypts the saved session with another key; no key writes plaintext.
+  rekey(passphrase: string | undefined): Promise<void>;
   clear(): Promise<void>;
 }
 
@@ -26,6 +40,16 @@ export interface LoginWithCookiesInput {
   requiredCookieNames?: string[];
 }
 
+export interface LoginFromBrowserInput {
+  store: SessionStore;
+  browser: CookieBrowser;
+  // Browser profile directory holding cookies.sqlite (Firefox) or Cookies
+  // (Chromium).
+  profileDir: string;
+  strict?: boolean;
+  requiredCookieNames?: string[];
+}
+
 export interface InteractiveLoginInput {
   store: SessionStore;
   strict?: boolean;
@@ -54,6 +78,11 @@ const DEFAULT_INTERACTIVE_LOGIN_TIMEOUT_MS = 3 * 60 * 1000;
 const DEFAULT_INTERACTIVE_LOGIN_POLL_INTERVAL_MS = 1200;
 const DEFAULT_INTERACTIVE_LOGIN_URL = "https://x.com/i/flow/login";
 const DEFAULT_INTERACTIVE_LOGIN_PROFILE_DIR = "chrome-profile";
+const SESSION_PROFILES_DIR_NAME = "profiles";
+const SESSION_PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export const DEFAULT_SESSION_PROFILE = "default";
+export const SESSION_KEY_ENV = "TWMD_SESSION_KEY";
 
 function normalizeCookieDomainValue(rawDomain: string): string {
   const trimmed = rawDomain.trim();
@@ -88,7 +117,9 @@ function isTwitterDomain(rawDomain: string): boolean {
   );
 }
 
-function serializePlaywrightCookie(cookie: Cookie): string {
+function serializeCookie(
+  cookie: Pick<Cookie, "name" | "value" | "domain" | "path" | "secure" | "httpOnly">
+): string {
   const domain = normalizeCookieDomainValue(cookie.domain || ".twitter.com");
   const path = cookie.path || "/";
   const securePart = cookie.secure ? "; Secure" : "";
@@ -100,7 +131,7 @@ async function readTwitterCookiesFromContext(context: BrowserContext): Promise<s
   const cookies = await context.cookies(["https://x.com", "https://twitter.com"]);
   const normalized = cookies
     .filter((cookie) => Boolean(cookie.name) && isTwitterDomain(cookie.domain ?? ""))
-    .map((cookie) => serializePlaywrightCookie(cookie));
+    .map((cookie) => serializeCookie(cookie));
 
   return normalizeCookiesForTwitterRequests(normalized);
 }
@@ -273,13 +304,38 @@ export function validateRequiredCookies(
   };
 }
 
+function getSessionBaseDir(appName: string): string {
+  return join(homedir(), `.${appName}`);
+}
+
+export function validateSessionProfileName(profile: string): void {
+  if (!SESSION_PROFILE_NAME_PATTERN.test(profile)) {
+    throw new Error(
+      `Invalid profile name: ${profile}. Use up to 64 letters, digits, "-" or "_".`
+    );
+  }
+}
+
+// The default profile stays at the original path so existing logins keep
+// working; named profiles get their own directory, which also keeps their
+// interactive-login browser data apart.
 export function createSessionStore(options: SessionStoreOptions): SessionStore {
-  const baseDir = join(homedir(), `.${options.appName}`);
+  const baseDir = getSessionBaseDir(options.appName);
   const sessionFileName = options.sessionFileName ?? "session.json";
-  const path = join(baseDir, sessionFileName);
+  const profile = options.profile?.trim() || DEFAULT_SESSION_PROFILE;
+  validateSessionProfileName(profile);
+
+  const path =
+    profile === DEFAULT_SESSION_PROFILE
+      ? join(baseDir, sessionFileName)
+      : join(baseDir, SESSION_PROFILES_DIR_NAME, profile, sessionFileName);
+  let passphrase = (options.passphrase ?? process.env[SESSION_KEY_ENV]) || undefined;
 
   return {
+    profile,
     path,
+    baseDir,
+    encrypted: passphrase !== undefined,
     async exists(): Promise<boolean> {
       try {
         await access(path, fsConstants.F_OK);
@@ -294,12 +350,52 @@ export function createSessionStore(options: SessionStoreOptions): SessionStore {
         return null;
       }
 
-      const raw = await readFile(path, "utf8");
-      return JSON.parse(raw) as SessionData;
+      const parsed: unknown = JSON.parse(await readFile(path, "utf8"));
+      if (isEncryptedSessionFile(parsed)) {
+        if (!passphrase) {
+          throw new Error(
+            `Session for profile ${profile} is encrypted. Set ${SESSION_KEY_ENV} to its session key.`
+          );
+        }
+
+        try {
+          return await decryptSessionData(parsed, passphrase);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(
+            `Session for profile ${profile} could not be decrypted, check the session key: ${message}`
+          );
+        }
+      }
+
+      // A plaintext session found while a key is set is encrypted in place,
+      // so existing logins migrate on first use.
+      const session = parsed as SessionData;
+      if (passphrase) {
+        try {
+          await this.save(session);
+        } catch {
+        }
+      }
+
+      return session;
     },
     async save(data: SessionData): Promise<void> {
+      const payload = passphrase ? await encryptSessionData(data, passphrase) : data;
       await mkdir(dirname(path), { recursive: true });
-      await writeFile(path, JSON.stringify(data, null, 2), { mode: 0o600 });
+      const tempPath = `${path}.tmp`;
+      await writeFile(tempPath, JSON.stringify(payload, null, 2), { mode: 0o600 });
+      await rename(tempPath, path);
+    },
+    async rekey(nextPassphrase: string | undefined): Promise<void> {
+      const session = await this.load();
+      if (!session) {
+        throw new Error(`Profile ${profile} has no saved session to rekey.`);
+      }
+
+      passphrase = nextPassphrase || undefined;
+      this.encrypted = passphrase !== undefined;
+      await this.save(session);
     },
     async clear(): Promise<void> {
       await rm(path, { force: true });
@@ -307,20 +403,46 @@ export function createSessionStore(options: SessionStoreOptions): SessionStore {
   };
 }
 
-export async function loginWithCookies(input: LoginWithCookiesInput): Promise<SessionData> {
-  const cookies = normalizeCookiesForTwitterRequests(parseCookies(input.cookieText));
-  if (cookies.length === 0) {
-    throw new Error("No valid cookie found from input.");
+// Profiles with a saved session, default first and the rest by name.
+export async function listSessionProfiles(
+  options: Omit<SessionStoreOptions, "profile">
+): Promise<SessionStore[]> {
+  let names: string[];
+  try {
+    names = await readdir(join(getSessionBaseDir(options.appName), SESSION_PROFILES_DIR_NAME));
+  } catch {
+    names = [];
   }
 
+  const candidates = [
+    DEFAULT_SESSION_PROFILE,
+    ...names
+      .filter((name) => name !== DEFAULT_SESSION_PROFILE && SESSION_PROFILE_NAME_PATTERN.test(name))
+      .sort((a, b) => a.localeCompare(b))
+  ];
+
+  const stores: SessionStore[] = [];
+  for (const profile of candidates) {
+    const store = createSessionStore({ ...options, profile });
+    if (await store.exists()) {
+      stores.push(store);
+    }
+  }
+
+  return stores;
+}
+
+async function saveCookieSession(
+  input: { store: SessionStore; strict?: boolean; requiredCookieNames?: string[] },
+  cookies: string[],
+  missingHint: string
+): Promise<SessionData> {
   const strict = input.strict ?? true;
   const requiredCookieNames = input.requiredCookieNames ?? DEFAULT_REQUIRED_COOKIE_NAMES;
   if (strict) {
     const validation = validateRequiredCookies(cookies, requiredCookieNames);
     if (!validation.valid) {
-      throw new Error(
-        `Missing required cookies: ${validation.missing.join(", ")}. Please export complete Twitter/X cookies.`
-      );
+      throw new Error(`Missing required cookies: ${validation.missing.join(", ")}. ${missingHint}`);
     }
   }
 
@@ -334,6 +456,31 @@ export async function loginWithCookies(input: LoginWithCookiesInput): Promise<Se
   return session;
 }
 
+export async function loginWithCookies(input: LoginWithCookiesInput): Promise<SessionData> {
+  const cookies = normalizeCookiesForTwitterRequests(parseCookies(input.cookieText));
+  if (cookies.length === 0) {
+    throw new Error("No valid cookie found from input.");
+  }
+
+  return saveCookieSession(input, cookies, "Please export complete Twitter/X cookies.");
+}
+
+// Reads the cookies straight from a browser profile on disk, so no export
+// extension is needed. The browser may stay open.
+export async function loginFromBrowser(input: LoginFromBrowserInput): Promise<SessionData> {
+  const browserCookies = await readBrowserCookies(input.browser, input.profileDir, isTwitterDomain);
+  const cookies = normalizeCookiesForTwitterRequests(
+    browserCookies
+      .filter((cookie) => cookie.name.length > 0 && cookie.value.length > 0)
+      .map((cookie) => serializeCookie(cookie))
+  );
+  if (cookies.length === 0) {
+    throw new Error(`No X/Twitter cookie found in ${input.browser} profile ${input.profileDir}.`);
+  }
+
+  return saveCookieSession(input, cookies, `Log in to x.com in ${input.browser} first.`);
+}
+
 export async function loginInteractively(input: InteractiveLoginInput): Promise<SessionData> {
   const strict = input.strict ?? true;
   const requiredCookieNames = input.requiredCookieNames ?? DEFAULT_REQUIRED_COOKIE_NAMES;
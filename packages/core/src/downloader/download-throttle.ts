@@ -0,0 +1,218 @@
+import { sleep } from "../utils/time.js";
+
+export interface DownloadThrottleOptions {
+  maxBytesPerSecond?: number;
+  // Upper bound of simultaneous requests per host name; hosts not listed
+  // fall back to `concurrency`.
+  hostConcurrency?: Record<string, number>;
+  // Upper bound of simultaneous requests across every batch sharing the
+  // throttle.
+  concurrency?: number;
+}
+
+interface SlotPool {
+  limit: number;
+  active: number;
+  waiters: Array<() => void>;
+}
+
+interface HostState extends SlotPool {
+  maxLimit: number;
+  recent: boolean[];
+  successStreak: number;
+}
+
+export interface DownloadThrottle {
+  maxBytesPerSecond?: number;
+  hostConcurrency: Record<string, number>;
+  defaultHostConcurrency: number;
+  total: SlotPool;
+  hosts: Map<string, HostState>;
+  // Virtual clock of the bandwidth bucket: the moment every byte handed out
+  // so far has been paid for.
+  bandwidthReadyAtMs: number;
+}
+
+export const DEFAULT_HOST_CONCURRENCY: Readonly<Record<string, number>> = {
+  "pbs.twimg.com": 8,
+  "video.twimg.com": 4
+};
+
+const DEFAULT_CONCURRENCY = 4;
+const BANDWIDTH_BURST_MS = 250;
+const OUTCOME_WINDOW_SIZE = 20;
+const BACKOFF_MIN_SAMPLES = 4;
+const BACKOFF_THROTTLED_RATIO = 0.25;
+const RECOVERY_SUCCESS_STREAK = 10;
+
+export function createDownloadThrottle(options: DownloadThrottleOptions = {}): DownloadThrottle {
+  const maxBytesPerSecond =
+    options.maxBytesPerSecond !== undefined && options.maxBytesPerSecond > 0
+      ? options.maxBytesPerSecond
+      : undefined;
+
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  return {
+    maxBytesPerSecond,
+    hostConcurrency: { ...DEFAULT_HOST_CONCURRENCY, ...(options.hostConcurrency ?? {}) },
+    defaultHostConcurrency: concurrency,
+    total: { limit: concurrency, active: 0, waiters: [] },
+    hosts: new Map(),
+    bandwidthReadyAtMs: 0
+  };
+}
+
+function readHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function getHostState(throttle: DownloadThrottle, url: string): HostState {
+  const host = readHost(url);
+  const existing = throttle.hosts.get(host);
+  if (existing) {
+    return existing;
+  }
+
+  const maxLimit = Math.max(1, throttle.hostConcurrency[host] ?? throttle.defaultHostConcurrency);
+  const state: HostState = {
+    limit: maxLimit,
+    maxLimit,
+    active: 0,
+    waiters: [],
+    recent: [],
+    successStreak: 0
+  };
+  throttle.hosts.set(host, state);
+  return state;
+}
+
+function wakeWaiters(pool: SlotPool): void {
+  let free = pool.limit - pool.active;
+  while (free > 0 && pool.waiters.length > 0) {
+    pool.waiters.shift()?.();
+    free -= 1;
+  }
+}
+
+function waitForTurn(pool: SlotPool, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      pool.waiters = pool.waiters.filter((waiter) => waiter !== wake);
+      resolve();
+    };
+    const wake = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+
+    pool.waiters.push(wake);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function acquireSlot(pool: SlotPool, signal?: AbortSignal): Promise<void> {
+  while (pool.active >= pool.limit) {
+    signal?.throwIfAborted();
+    await waitForTurn(pool, signal);
+  }
+
+  signal?.throwIfAborted();
+  pool.active += 1;
+}
+
+function releaseSlot(pool: SlotPool): void {
+  pool.active -= 1;
+  wakeWaiters(pool);
+}
+
+// Resolves with a release callback once both the job-wide pool and the host
+// have a free slot. The slot covers one request attempt, not the backoff
+// between attempts.
+export async function acquireHostSlot(
+  throttle: DownloadThrottle,
+  url: string,
+  signal?: AbortSignal
+): Promise<() => void> {
+  const state = getHostState(throttle, url);
+  // Host first: a request parked behind a backed-off host must not hold one
+  // of the job-wide slots other hosts could use.
+  await acquireSlot(state, signal);
+  try {
+    await acquireSlot(throttle.total, signal);
+  } catch (error) {
+    releaseSlot(state);
+    throw error;
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+    releaseSlot(state);
+    releaseSlot(throttle.total);
+  };
+}
+
+// Additive increase, multiplicative decrease: a host that starts answering
+// with 429/5xx loses half its slots, and earns them back one at a time after
+// a run of clean responses.
+export function recordHostResponse(throttle: DownloadThrottle, url: string, status: number): void {
+  const state = getHostState(throttle, url);
+  const throttled = status === 429 || status >= 500;
+
+  state.recent.push(throttled);
+  if (state.recent.length > OUTCOME_WINDOW_SIZE) {
+    state.recent.shift();
+  }
+
+  if (!throttled) {
+    state.successStreak += 1;
+    if (state.successStreak >= RECOVERY_SUCCESS_STREAK && state.limit < state.maxLimit) {
+      state.limit += 1;
+      state.successStreak = 0;
+      wakeWaiters(state);
+    }
+    return;
+  }
+
+  state.successStreak = 0;
+  const throttledCount = state.recent.filter(Boolean).length;
+  if (
+    state.recent.length >= BACKOFF_MIN_SAMPLES &&
+    throttledCount / state.recent.length >= BACKOFF_THROTTLED_RATIO &&
+    state.limit > 1
+  ) {
+    state.limit = Math.max(1, Math.floor(state.limit / 2));
+    state.recent = [];
+  }
+}
+
+// Shared by every worker, so the cap applies to the sum of all downloads
+// rather than to each one.
+export async function consumeBandwidth(
+  throttle: DownloadThrottle,
+  bytes: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const rate = throttle.maxBytesPerSecond;
+  if (!rate || bytes <= 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const startMs = Math.max(throttle.bandwidthReadyAtMs, now - BANDWIDTH_BURST_MS);
+  throttle.bandwidthReadyAtMs = startMs + (bytes * 1000) / rate;
+
+  const waitMs = throttle.bandwidthReadyAtMs - now;
+  if (waitMs > 0) {
+    await sleep(waitMs, signal);
+    signal?.throwIfAborted();
+  }
+}
@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { MediaItem } from "@huangjz11/shared";
+import { nowIso } from "../utils/time.js";
+
+export interface DownloadedMediaRecord {
+  path: string;
+  size: number;
+  sha256: string;
+  recordedAt: string;
+  item: Omit<MediaItem, "filenameHint">;
+  // Metadata options the file was saved with, so a repair can apply them
+  // again; absent for files adopted from disk or recorded by older versions.
+  writeMetadata?: boolean;
+  embedMetadata?: boolean;
+}
+
+export interface RecordedMetadataOptions {
+  writeMetadata: boolean;
+  embedMetadata: boolean;
+}
+
+export interface DownloadedMediaCacheState {
+  path: string;
+  mediaKeys: Set<string>;
+  records: Map<string, DownloadedMediaRecord>;
+  // Reverse index of recorded relative paths to media keys, used to detect
+  // filename template collisions between different media.
+  paths: Map<string, string>;
+  // Paths handed to downloads that have not been recorded yet; shared so
+  // concurrent batches never pick the same target file.
+  claimedPaths: Set<string>;
+  writing: Promise<void>;
+}
+
+export interface FileDigest {
+  size: number;
+  sha256: string;
+}
+
+interface DownloadedMediaCache {
+  version: number;
+  updatedAt: string;
+  mediaKeys: string[];
+  records?: Record<string, DownloadedMediaRecord>;
+}
+
+const DOWNLOADED_MEDIA_CACHE_VERSION = 2;
+const LEGACY_DOWNLOADED_MEDIA_CACHE_VERSION = 1;
+const DOWNLOADED_MEDIA_CACHE_FILE_NAME = "downloaded-media.json";
+
+function getDownloadedMediaCachePath(outputDir: string): string {
+  return join(outputDir, ".twmd-cache", DOWNLOADED_MEDIA_CACHE_FILE_NAME);
+}
+
+function normalizeMediaUrlForCacheKey(rawUrl: string): string {
+  try {
+    const parsed = new URL(rawUrl);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return rawUrl;
+  }
+}
+
+function isDownloadedMediaRecord(value: unknown): value is DownloadedMediaRecord {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const record = value as Partial<DownloadedMediaRecord>;
+  return (
+    typeof record.path === "string" &&
+    typeof record.size === "number" &&
+    typeof record.sha256 === "string" &&
+    Boolean(record.item) &&
+    typeof record.item?.url === "string"
+  );
+}
+
+export function buildDownloadedMediaKey(item: MediaItem): string {
+  return [
+    item.username.trim().toLowerCase(),
+    item.tweetId.trim(),
+    item.kind,
+    normalizeMediaUrlForCacheKey(item.url)
+  ].join("|");
+}
+
+export async function loadDownloadedMediaCache(outputDir: string): Promise<DownloadedMediaCacheState> {
+  const path = getDownloadedMediaCachePath(outputDir);
+  const state: DownloadedMediaCacheState = {
+    path,
+    mediaKeys: new Set(),
+    records: new Map(),
+    paths: new Map(),
+    claimedPaths: new Set(),
+    writing: Promise.resolve()
+  };
+
+  try {
+    const raw = await readFile(path, "utf8");
+    const parsed = JSON.parse(raw) as Partial<DownloadedMediaCache>;
+    if (
+      (parsed.version !== DOWNLOADED_MEDIA_CACHE_VERSION &&
+        parsed.version !== LEGACY_DOWNLOADED_MEDIA_CACHE_VERSION) ||
+      !Array.isArray(parsed.mediaKeys)
+    ) {
+      return state;
+    }
+
+    for (const key of parsed.mediaKeys) {
+      if (typeof key === "string" && key.length > 0) {
+        state.mediaKeys.add(key);
+      }
+    }
+
+    for (const [key, record] of Object.entries(parsed.records ?? {})) {
+      if (isDownloadedMediaRecord(record)) {
+        state.records.set(key, record);
+        state.paths.set(record.path, key);
+      }
+    }
+
+    return state;
+  } catch {
+    return state;
+  }
+}
+
+export async function persistDownloadedMediaCache(state: DownloadedMediaCacheState): Promise<void> {
+  const directory = dirname(state.path);
+  const payload: DownloadedMediaCache = {
+    version: DOWNLOADED_MEDIA_CACHE_VERSION,
+    updatedAt: nowIso(),
+    mediaKeys: Array.from(state.mediaKeys),
+    records: Object.fromEntries(state.records)
+  };
+
+  // Concurrent batches share one state, so writes are chained rather than
+  // racing on the same temp file.
+  state.writing = state.writing.then(async () => {
+    try {
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${state.path}.tmp`;
+      await writeFile(tempPath, JSON.stringify(payload, null, 2));
+      await rename(tempPath, state.path);
+    } catch {
+    }
+  });
+
+  await state.writing;
+}
+
+export async function computeFileDigest(path: string): Promise<FileDigest> {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  for await (const chunk of createReadStream(path)) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    hash.update(buffer);
+  }
+
+  return {
+    size,
+    sha256: hash.digest("hex")
+  };
+}
+
+export function recordDownloadedMedia(
+  state: DownloadedMediaCacheState,
+  item: MediaItem,
+  relativePath: string,
+  digest: FileDigest,
+  metadata?: RecordedMetadataOptions
+): void {
+  const key = buildDownloadedMediaKey(item);
+  const previous = state.records.get(key);
+  if (previous && state.paths.get(previous.path) === key) {
+    state.paths.delete(previous.path);
+  }
+
+  state.mediaKeys.add(key);
+  state.paths.set(relativePath, key);
+  state.records.set(key, {
+    path: relativePath,
+    size: digest.size,
+    sha256: digest.sha256,
+    recordedAt: nowIso(),
+    item: {
+      id: item.id,
+      tweetId: item.tweetId,
+      username: item.username,
+      kind: item.kind,
+      url: item.url,
+      createdAt: item.createdAt,
+      index: item.index,
+      text: item.text,
+      lang: item.lang,
+      metrics: item.metrics,
+      relation: item.relation,
+      author: item.author
+    },
+    writeMetadata: metadata?.writeMetadata,
+    embedMetadata: metadata?.embedMetadata
+  });
+}
+
+export function forgetDownloadedMedia(state: DownloadedMediaCacheState, key: string): void {
+  const record = state.records.get(key);
+  if (record && state.paths.get(record.path) === key) {
+    state.paths.delete(record.path);
+  }
+
+  state.mediaKeys.delete(key);
+  state.records.delete(key);
+}
@@ -1,9 +1,27 @@
 import { constants as fsConstants } from "node:fs";
-import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { access, mkdir, open, rename, rm, stat } from "node:fs/promises";
 import { dirname, join } from "node:path";
 import type { FailureDetail, MediaItem } from "@huangjz11/shared";
-import { buildMediaFilename, sanitizePathPart } from "../utils/path.js";
+import { isMediaSpecificTemplate, renderMediaPath, withCollisionSuffix } from "../utils/path.js";
 import { nowIso, sleep } from "../utils/time.js";
+import {
+  buildDownloadedMediaKey,
+  computeFileDigest,
+  forgetDownloadedMedia,
+  loadDownloadedMediaCache,
+  persistDownloadedMediaCache,
+  recordDownloadedMedia,
+  type DownloadedMediaCacheState
+} from "./downloaded-media-cache.js";
+import {
+  acquireHostSlot,
+  consumeBandwidth,
+  createDownloadThrottle,
+  recordHostResponse,
+  type DownloadThrottle
+} from "./download-throttle.js";
+import { embedTweetMetadata } from "./media-tagging.js";
+import { writeTweetMetadataSidecars, type SavedMedia } from "./metadata-sidecar.js";
 
 export interface DownloadMediaBatchInput {
   items: MediaItem[];
@@ -12,6 +30,38 @@ export interface DownloadMediaBatchInput {
   retryCount?: number;
   username?: string;
   perRequestDelayMs?: number;
+  subdirectory?: string;
+  filenameTemplate?: string;
+  writeMetadata?: boolean;
+  embedMetadata?: boolean;
+  // Relative paths keyed by media key that bypass the template, so repairs
+  // land exactly where the original file was recorded. These items are
+  // always downloaded again and replace the file only once complete.
+  targetPaths?: Map<string, string>;
+  // Called when a request for the item is about to go out; cached and
+  // already present files settle as skipped without starting.
+  onItemStarted?: (item: MediaItem) => void;
+  onItemSettled?: (item: MediaItem, status: MediaOutcomeStatus, detail: MediaSettledDetail) => void;
+  // Called for every chunk written, across all items of the batch.
+  onBytesReceived?: (bytes: number) => void;
+  // Stops handing out new items and aborts in-flight requests; the batch then
+  // resolves with whatever finished, leaving `.part` files for the next run.
+  signal?: AbortSignal;
+  // Pass one throttle to every batch of a job so the bandwidth cap and host
+  // limits apply job-wide; without it the batch gets its own default throttle.
+  throttle?: DownloadThrottle;
+  // Batches running side by side must share one cache state, otherwise each
+  // persists its own copy and drops the others' records.
+  cache?: DownloadedMediaCacheState;
+}
+
+export type MediaOutcomeStatus = "downloaded" | "failed" | "skipped";
+
+export interface MediaSettledDetail {
+  // Bytes received by this batch, excluding what a partial file already held.
+  bytes: number;
+  elapsedMs: number;
+  failure?: FailureDetail;
 }
 
 export interface DownloadMediaBatchResult {
@@ -28,96 +78,86 @@ interface DownloadAttemptError extends Error {
   attempts?: number;
 }
 
-interface DownloadedMediaCache {
-  version: number;
-  updatedAt: string;
-  mediaKeys: string[];
-}
-
-interface DownloadedMediaCacheState {
-  path: string;
-  mediaKeys: Set<string>;
+interface MediaOutcome {
+  status: MediaOutcomeStatus;
+  failure?: FailureDetail;
+  bytes?: number;
+  elapsedMs?: number;
 }
 
-const DOWNLOADED_MEDIA_CACHE_VERSION = 1;
-const DOWNLOADED_MEDIA_CACHE_FILE_NAME = "downloaded-media.json";
-
-function getDownloadedMediaCachePath(outputDir: string): string {
-  return join(outputDir, ".twmd-cache", DOWNLOADED_MEDIA_CACHE_FILE_NAME);
+interface ContentRange {
+  start: number;
+  total?: number;
 }
 
-function normalizeMediaUrlForCacheKey(rawUrl: string): string {
-  try {
-    const parsed = new URL(rawUrl);
-    return `${parsed.origin}${parsed.pathname}`;
-  } catch {
-    return rawUrl;
-  }
+interface TargetPath {
+  relativePath: string;
+  // What already sits at the path: nothing, a file matching the remote size,
+  // or an earlier copy of this media that has to be replaced.
+  existing: "none" | "verified" | "stale";
 }
 
-function buildDownloadedMediaKey(item: MediaItem): string {
-  return [
-    item.username.trim().toLowerCase(),
-    item.tweetId.trim(),
-    item.kind,
-    normalizeMediaUrlForCacheKey(item.url)
-  ].join("|");
+interface BatchContext {
+  outputDir: string;
+  retryCount: number;
+  username: string;
+  perRequestDelayMs: number;
+  cache: DownloadedMediaCacheState;
+  subdirectory?: string;
+  filenameTemplate?: string;
+  writeMetadata: boolean;
+  embedMetadata: boolean;
+  targetPaths?: Map<string, string>;
+  onItemStarted?: (item: MediaItem) => void;
+  onItemSettled?: (item: MediaItem, status: MediaOutcomeStatus, detail: MediaSettledDetail) => void;
+  onBytesReceived?: (bytes: number) => void;
+  signal?: AbortSignal;
+  throttle: DownloadThrottle;
+  saved: SavedMedia[];
 }
 
-async function loadDownloadedMediaCache(outputDir: string): Promise<DownloadedMediaCacheState> {
-  const path = getDownloadedMediaCachePath(outputDir);
+const PARTIAL_FILE_SUFFIX = ".part";
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "ERR_INCOMPLETE_BODY"
+]);
 
+async function fileExists(path: string): Promise<boolean> {
   try {
-    const raw = await readFile(path, "utf8");
-    const parsed = JSON.parse(raw) as Partial<DownloadedMediaCache>;
-    if (
-      parsed.version !== DOWNLOADED_MEDIA_CACHE_VERSION ||
-      !Array.isArray(parsed.mediaKeys)
-    ) {
-      return {
-        path,
-        mediaKeys: new Set()
-      };
-    }
-
-    return {
-      path,
-      mediaKeys: new Set(
-        parsed.mediaKeys.filter((item): item is string => typeof item === "string" && item.length > 0)
-      )
-    };
+    await access(path, fsConstants.F_OK);
+    return true;
   } catch {
-    return {
-      path,
-      mediaKeys: new Set()
-    };
+    return false;
   }
 }
 
-async function persistDownloadedMediaCache(state: DownloadedMediaCacheState): Promise<void> {
-  const directory = dirname(state.path);
-  const payload: DownloadedMediaCache = {
-    version: DOWNLOADED_MEDIA_CACHE_VERSION,
-    updatedAt: nowIso(),
-    mediaKeys: Array.from(state.mediaKeys)
-  };
-
+async function fileSize(path: string): Promise<number> {
   try {
-    await mkdir(directory, { recursive: true });
-    const tempPath = `${state.path}.tmp`;
-    await writeFile(tempPath, JSON.stringify(payload, null, 2));
-    await rename(tempPath, state.path);
+    const info = await stat(path);
+    return info.size;
   } catch {
+    return 0;
   }
 }
 
-async function fileExists(path: string): Promise<boolean> {
-  try {
-    await access(path, fsConstants.F_OK);
-    return true;
-  } catch {
-    return false;
+function readErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string") {
+    return code;
   }
+
+  return readErrorCode((error as { cause?: unknown }).cause);
 }
 
 function shouldRetry(error: unknown): boolean {
@@ -125,6 +165,11 @@ function shouldRetry(error: unknown): boolean {
     return true;
   }
 
+  const errorCode = readErrorCode(error);
+  if (errorCode && RETRYABLE_ERROR_CODES.has(errorCode)) {
+    return true;
+  }
+
   const detailedError = error as DownloadAttemptError;
   if (typeof detailedError.status === "number") {
     if (detailedError.status === 429) {
@@ -139,7 +184,12 @@ function shouldRetry(error: unknown): boolean {
   }
 
   const message = error.message.toLowerCase();
-  return message.includes("network") || message.includes("timeout") || message.includes("fetch");
+  return (
+    message.includes("network") ||
+    message.includes("timeout") ||
+    message.includes("fetch") ||
+    message.includes("terminated")
+  );
 }
 
 function toFailureCode(error: unknown): string | undefined {
@@ -171,31 +221,176 @@ function toFailureAttempts(error: unknown, fallback: number): number {
   return fallback;
 }
 
+function parseContentRange(header: string | null): ContentRange | null {
+  const match = header?.match(/^bytes\s+(\d+)-\d+\/(\d+|\*)$/i);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    start: Number.parseInt(match[1], 10),
+    total: match[2] === "*" ? undefined : Number.parseInt(match[2], 10)
+  };
+}
+
+function parseUnsatisfiedRangeTotal(header: string | null): number | undefined {
+  const match = header?.match(/^bytes\s+\*\/(\d+)$/i);
+  return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+function parseContentLength(header: string | null): number | undefined {
+  if (!header || !/^\d+$/.test(header.trim())) {
+    return undefined;
+  }
+
+  return Number.parseInt(header.trim(), 10);
+}
+
+function createStatusError(status: number, url: string): DownloadAttemptError {
+  const error = new Error(`HTTP ${status} for ${url}`) as DownloadAttemptError;
+  error.status = status;
+  return error;
+}
+
+// Streams one attempt into the partial file, continuing from whatever an
+// earlier attempt already wrote. Returns once the partial file holds the full body.
+async function downloadToPartialFile(
+  item: MediaItem,
+  partPath: string,
+  throttle: DownloadThrottle,
+  onChunk: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const offset = await fileSize(partPath);
+  const headers: Record<string, string> = {};
+  if (offset > 0) {
+    headers.Range = `bytes=${offset}-`;
+  }
+
+  const response = await fetch(item.url, { headers, signal });
+  recordHostResponse(throttle, item.url, response.status);
+
+  if (response.status === 416 && offset > 0) {
+    await response.body?.cancel();
+    const total = parseUnsatisfiedRangeTotal(response.headers.get("content-range"));
+    if (total === offset) {
+      return;
+    }
+
+    // The partial file no longer matches the remote body; start over.
+    await rm(partPath, { force: true });
+    const error = createStatusError(response.status, item.url);
+    error.code = "ERR_INCOMPLETE_BODY";
+    throw error;
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw createStatusError(response.status, item.url);
+  }
+
+  let append = false;
+  let expectedSize: number | undefined;
+  const contentLength = parseContentLength(response.headers.get("content-length"));
+
+  if (response.status === 206) {
+    const range = parseContentRange(response.headers.get("content-range"));
+    if (!range || range.start !== offset) {
+      await response.body?.cancel();
+      await rm(partPath, { force: true });
+      const error = new Error(`Unexpected content-range for ${item.url}`) as DownloadAttemptError;
+      error.code = "ERR_INCOMPLETE_BODY";
+      throw error;
+    }
+
+    append = true;
+    expectedSize = range.total ?? (contentLength !== undefined ? offset + contentLength : undefined);
+  } else {
+    expectedSize = contentLength;
+  }
+
+  // Each chunk is written before the next is read, so whatever arrived before
+  // a dropped connection stays on disk for the next ranged attempt.
+  const handle = await open(partPath, append ? "a" : "w");
+  try {
+    if (response.body) {
+      for await (const chunk of response.body) {
+        await consumeBandwidth(throttle, chunk.byteLength, signal);
+        await handle.write(chunk);
+        onChunk(chunk.byteLength);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (expectedSize !== undefined) {
+    const written = await fileSize(partPath);
+    if (written !== expectedSize) {
+      const error = new Error(
+        `Incomplete body for ${item.url}: ${written}/${expectedSize} bytes`
+      ) as DownloadAttemptError;
+      error.code = "ERR_INCOMPLETE_BODY";
+      throw error;
+    }
+  }
+}
+
+// Asks for the first byte only, so the full size comes back in Content-Range
+// without transferring the body. Hosts that ignore Range report it as the
+// content length instead; anything else leaves the size unknown.
+async function probeRemoteSize(
+  item: MediaItem,
+  throttle: DownloadThrottle,
+  signal?: AbortSignal
+): Promise<number | undefined> {
+  const release = await acquireHostSlot(throttle, item.url, signal);
+  try {
+    const response = await fetch(item.url, { headers: { Range: "bytes=0-0" }, signal });
+    recordHostResponse(throttle, item.url, response.status);
+    await response.body?.cancel();
+    if (response.status === 206) {
+      return parseContentRange(response.headers.get("content-range"))?.total;
+    }
+
+    return response.ok ? parseContentLength(response.headers.get("content-length")) : undefined;
+  } catch {
+    signal?.throwIfAborted();
+    return undefined;
+  } finally {
+    release();
+  }
+}
+
 async function downloadWithRetries(
   item: MediaItem,
   targetPath: string,
   retryCount: number,
-  perRequestDelayMs: number
+  perRequestDelayMs: number,
+  throttle: DownloadThrottle,
+  onChunk: (bytes: number) => void,
+  signal?: AbortSignal
 ): Promise<void> {
+  const partPath = `${targetPath}${PARTIAL_FILE_SUFFIX}`;
   let attempt = 0;
 
   while (attempt <= retryCount) {
     try {
       if (perRequestDelayMs > 0) {
-        await sleep(perRequestDelayMs);
+        await sleep(perRequestDelayMs, signal);
       }
 
-      const response = await fetch(item.url);
-      if (!response.ok) {
-        const error = new Error(`HTTP ${response.status} for ${item.url}`) as DownloadAttemptError;
-        error.status = response.status;
-        throw error;
+      const release = await acquireHostSlot(throttle, item.url, signal);
+      try {
+        await downloadToPartialFile(item, partPath, throttle, onChunk, signal);
+      } finally {
+        release();
       }
 
-      const buffer = Buffer.from(await response.arrayBuffer());
-      await writeFile(targetPath, buffer);
+      await rename(partPath, targetPath);
       return;
     } catch (error) {
+      signal?.throwIfAborted();
       const performedAttempts = attempt + 1;
       const canRetry = shouldRetry(error);
       if (!canRetry || attempt === retryCount) {
@@ -206,57 +401,169 @@ async function downloadWithRetries(
       }
 
       const backoff = 500 * Math.pow(2, attempt);
-      await sleep(backoff);
+      await sleep(backoff, signal);
       attempt += 1;
     }
   }
 }
 
+// Two different media rendering to the same path (for example a template
+// without {mediaId} or {index}) get a numeric suffix instead of overwriting
+// or silently skipping each other. That includes files nobody recorded: one
+// whose size matches the remote body is taken as this media, and one that
+// does not is another media's file unless the template rules that out, in
+// which case it is a broken copy to replace.
+async function resolveTargetPath(
+  context: BatchContext,
+  mediaKey: string,
+  item: MediaItem
+): Promise<TargetPath> {
+  let remoteSize: Promise<number | undefined> | undefined;
+  const matchesRemoteSize = async (relativePath: string): Promise<boolean> => {
+    remoteSize ??= probeRemoteSize(item, context.throttle, context.signal);
+    const size = await remoteSize;
+    return size !== undefined && size === (await fileSize(join(context.outputDir, relativePath)));
+  };
+
+  // A fixed path holds a file found damaged, which a matching size does
+  // not clear.
+  const fixed = context.targetPaths?.get(mediaKey);
+  if (fixed) {
+    context.cache.claimedPaths.add(fixed);
+    return {
+      relativePath: fixed,
+      existing: (await fileExists(join(context.outputDir, fixed))) ? "stale" : "none"
+    };
+  }
+
+  const preferred = renderMediaPath(
+    item,
+    context.subdirectory ?? item.username,
+    context.filenameTemplate
+  );
+  const mediaSpecific = isMediaSpecificTemplate(context.filenameTemplate);
+
+  for (let attempt = 1; ; attempt += 1) {
+    const candidate = attempt === 1 ? preferred : withCollisionSuffix(preferred, attempt);
+    const owner = context.cache.paths.get(candidate);
+    if (context.cache.claimedPaths.has(candidate) || (owner !== undefined && owner !== mediaKey)) {
+      continue;
+    }
+
+    // Claimed before any await so concurrent items never probe the same path.
+    context.cache.claimedPaths.add(candidate);
+    if (!(await fileExists(join(context.outputDir, candidate)))) {
+      return { relativePath: candidate, existing: "none" };
+    }
+
+    if (await matchesRemoteSize(candidate)) {
+      return { relativePath: candidate, existing: "verified" };
+    }
+
+    if (mediaSpecific) {
+      return { relativePath: candidate, existing: "stale" };
+    }
+
+    context.cache.claimedPaths.delete(candidate);
+  }
+}
+
 async function processOne(
   item: MediaItem,
-  outputDir: string,
-  retryCount: number,
-  username: string,
-  perRequestDelayMs: number,
-  downloadedMediaKeys: Set<string>
-): Promise<{
-  status: "downloaded" | "failed" | "skipped";
-  failure?: FailureDetail;
-}> {
+  context: BatchContext
+): Promise<MediaOutcome> {
+  const { cache, outputDir, retryCount } = context;
   const mediaKey = buildDownloadedMediaKey(item);
-  if (downloadedMediaKeys.has(mediaKey)) {
-    return { status: "skipped" };
+  const record = cache.records.get(mediaKey);
+  // Caches written before records existed only list keys, so their files
+  // are checked like any other unrecorded file.
+  const legacyKey = cache.mediaKeys.has(mediaKey) && !record;
+  // A repair keeps the damaged file and its record until the new copy has
+  // replaced it, so a failed download leaves both as they were.
+  if (record && !context.targetPaths?.has(mediaKey)) {
+    // Files moved away by the user stay skipped; a size change means the
+    // file on disk is damaged, so it is downloaded again.
+    const recordedPath = join(outputDir, record.path);
+    if (!(await fileExists(recordedPath))) {
+      return { status: "skipped" };
+    }
+
+    if ((await fileSize(recordedPath)) === record.size) {
+      context.saved.push({ item, relativePath: record.path });
+      return { status: "skipped" };
+    }
+
+    forgetDownloadedMedia(cache, mediaKey);
+    await rm(recordedPath, { force: true });
   }
 
-  const userDir = join(outputDir, sanitizePathPart(item.username));
-  await mkdir(userDir, { recursive: true });
+  const { relativePath, existing } = await resolveTargetPath(context, mediaKey, item);
+  const filePath = join(outputDir, relativePath);
+  await mkdir(dirname(filePath), { recursive: true });
 
-  const fileName = buildMediaFilename(item);
-  const filePath = join(userDir, fileName);
+  // A file nobody recorded may be cut short by a crashed run, so it is only
+  // kept when its size matches the remote one. A stale copy is downloaded
+  // again and replaced once the new body is complete.
+  if (existing === "verified") {
+    recordDownloadedMedia(cache, item, relativePath, await computeFileDigest(filePath));
+    context.saved.push({ item, relativePath });
+    return { status: "skipped" };
+  }
 
-  if (await fileExists(filePath)) {
-    downloadedMediaKeys.add(mediaKey);
+  if (existing === "none" && legacyKey) {
     return { status: "skipped" };
   }
 
+  let bytes = 0;
+  const onChunk = (received: number): void => {
+    bytes += received;
+    context.onBytesReceived?.(received);
+  };
+
+  context.onItemStarted?.(item);
+  const startedAtMs = Date.now();
   try {
-    await downloadWithRetries(item, filePath, retryCount, perRequestDelayMs);
-    downloadedMediaKeys.add(mediaKey);
-    return { status: "downloaded" };
+    await downloadWithRetries(
+      item,
+      filePath,
+      retryCount,
+      context.perRequestDelayMs,
+      context.throttle,
+      onChunk,
+      context.signal
+    );
+    if (context.embedMetadata) {
+      // Tagging is best effort: an untagged file is still a good download.
+      try {
+        await embedTweetMetadata(filePath, item);
+      } catch {
+      }
+    }
+
+    recordDownloadedMedia(cache, item, relativePath, await computeFileDigest(filePath), {
+      writeMetadata: context.writeMetadata,
+      embedMetadata: context.embedMetadata
+    });
+    context.saved.push({ item, relativePath });
+    return { status: "downloaded", bytes, elapsedMs: Date.now() - startedAtMs };
   } catch (error) {
+    context.signal?.throwIfAborted();
     const message = error instanceof Error ? error.message : String(error);
     return {
       status: "failed",
+      bytes,
+      elapsedMs: Date.now() - startedAtMs,
       failure: {
         scope: "media",
-        username,
+        username: context.username,
         message,
         code: toFailureCode(error),
         media: {
           tweetId: item.tweetId,
           mediaId: item.id,
           url: item.url,
-          targetPath: filePath
+          targetPath: filePath,
+          relation: item.relation
         },
         attempts: toFailureAttempts(error, retryCount + 1),
         timestamp: nowIso()
@@ -267,27 +574,30 @@ async function processOne(
 
 async function runWorker(
   queue: MediaItem[],
-  outputDir: string,
-  retryCount: number,
   result: DownloadMediaBatchResult,
-  username: string,
-  perRequestDelayMs: number,
-  downloadedMediaKeys: Set<string>
+  context: BatchContext
 ): Promise<void> {
-  while (queue.length > 0) {
+  while (queue.length > 0 && !context.signal?.aborted) {
     const item = queue.shift();
     if (!item) {
       return;
     }
 
-    const outcome = await processOne(
-      item,
-      outputDir,
-      retryCount,
-      username,
-      perRequestDelayMs,
-      downloadedMediaKeys
-    );
+    let outcome: MediaOutcome;
+    try {
+      outcome = await processOne(item, context);
+    } catch (error) {
+      if (context.signal?.aborted) {
+        return;
+      }
+
+      throw error;
+    }
+    context.onItemSettled?.(item, outcome.status, {
+      bytes: outcome.bytes ?? 0,
+      elapsedMs: outcome.elapsedMs ?? 0,
+      failure: outcome.failure
+    });
 
     if (outcome.status === "downloaded") {
       result.downloaded += 1;
@@ -323,25 +633,36 @@ export async function downloadMediaBatch(
     return result;
   }
 
-  const downloadedMediaCache = await loadDownloadedMediaCache(input.outputDir);
+  const context: BatchContext = {
+    outputDir: input.outputDir,
+    retryCount,
+    username,
+    perRequestDelayMs,
+    cache: input.cache ?? (await loadDownloadedMediaCache(input.outputDir)),
+    subdirectory: input.subdirectory,
+    filenameTemplate: input.filenameTemplate,
+    writeMetadata: input.writeMetadata === true,
+    embedMetadata: input.embedMetadata === true,
+    targetPaths: input.targetPaths,
+    onItemStarted: input.onItemStarted,
+    onItemSettled: input.onItemSettled,
+    onBytesReceived: input.onBytesReceived,
+    signal: input.signal,
+    throttle: input.throttle ?? createDownloadThrottle({ concurrency }),
+    saved: []
+  };
 
   const workerCount = Math.min(concurrency, queue.length);
-  const workers = Array.from({ length: workerCount }, () =>
-    runWorker(
-      queue,
-      input.outputDir,
-      retryCount,
-      result,
-      username,
-      perRequestDelayMs,
-      downloadedMediaCache.mediaKeys
-    )
-  );
+  const workers = Array.from({ length: workerCount }, () => runWorker(queue, result, context));
 
   try {
     await Promise.all(workers);
   } finally {
-    await persistDownloadedMediaCache(downloadedMediaCache);
+    await persistDownloadedMediaCache(context.cache);
+  }
+
+  if (input.writeMetadata) {
+    await writeTweetMetadataSidecars(input.outputDir, context.saved);
   }
 
   return result;
@@ -0,0 +1,485 @@
+import { open, readFile, rename, rm, utimes, writeFile, type FileHandle } from "node:fs/promises";
+import type { MediaItem } from "@huangjz11/shared";
+
+interface TweetTags {
+  url: string;
+  author: string;
+  date?: Date;
+  text?: string;
+}
+
+interface BoxHeader {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+const JPEG_SOI = 0xffd8;
+const JPEG_SOS = 0xda;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const EXIF_SIGNATURE = Buffer.from("Exif\0\0", "latin1");
+const XMP_SIGNATURE = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1");
+// A JPEG segment length is a 16-bit value that includes its own two bytes.
+const MAX_JPEG_SEGMENT_PAYLOAD = 0xffff - 2;
+const MP4_CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl", "edts", "dinf", "mvex"]);
+const COPY_CHUNK_SIZE = 1024 * 1024;
+
+function parseTweetDate(createdAt: string | undefined): Date | undefined {
+  if (!createdAt) {
+    return undefined;
+  }
+
+  const parsed = new Date(createdAt);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+function buildTweetTags(item: MediaItem): TweetTags {
+  const author = item.author ?? item.username;
+  return {
+    url: `https://x.com/${author}/status/${item.tweetId}`,
+    author: `@${author}`,
+    date: parseTweetDate(item.createdAt),
+    text: item.text
+  };
+}
+
+function truncateUtf8(input: string, maxBytes: number): string {
+  const encoded = Buffer.from(input, "utf8");
+  if (encoded.length <= maxBytes) {
+    return input;
+  }
+
+  // Drop a trailing partial code point left behind by the byte cut.
+  return encoded.subarray(0, maxBytes).toString("utf8").replace(/\uFFFD$/, "");
+}
+
+function formatExifDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getUTCFullYear()}:${pad(date.getUTCMonth() + 1)}:${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`
+  );
+}
+
+function escapeXml(input: string): string {
+  return input
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  value: Buffer;
+}
+
+const TIFF_ASCII = 2;
+const TIFF_LONG = 4;
+const TIFF_UNDEFINED = 7;
+
+function asciiEntry(tag: number, value: string): IfdEntry {
+  return { tag, type: TIFF_ASCII, value: Buffer.concat([Buffer.from(value, "utf8"), Buffer.from([0])]) };
+}
+
+// Lays out one IFD at `offset` (relative to the TIFF header). Values longer
+// than four bytes go into a data area directly after the entry table.
+function buildIfd(entries: IfdEntry[], offset: number): Buffer {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + sorted.length * 12 + 4;
+  const table = Buffer.alloc(tableSize);
+  const data: Buffer[] = [];
+  let dataOffset = offset + tableSize;
+
+  table.writeUInt16LE(sorted.length, 0);
+  sorted.forEach((entry, index) => {
+    const position = 2 + index * 12;
+    const count = entry.type === TIFF_LONG ? entry.value.length / 4 : entry.value.length;
+    table.writeUInt16LE(entry.tag, position);
+    table.writeUInt16LE(entry.type, position + 2);
+    table.writeUInt32LE(count, position + 4);
+
+    if (entry.value.length <= 4) {
+      entry.value.copy(table, position + 8);
+      return;
+    }
+
+    table.writeUInt32LE(dataOffset, position + 8);
+    const padded = entry.value.length % 2 === 1 ? Buffer.concat([entry.value, Buffer.from([0])]) : entry.value;
+    data.push(padded);
+    dataOffset += padded.length;
+  });
+  table.writeUInt32LE(0, tableSize - 4);
+
+  return Buffer.concat([table, ...data]);
+}
+
+function buildExifPayload(tags: TweetTags): Buffer {
+  const tiffHeader = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  const budget = MAX_JPEG_SEGMENT_PAYLOAD - EXIF_SIGNATURE.length - 512;
+  const description = truncateUtf8(tags.text ?? tags.url, budget);
+  const exifDate = tags.date ? formatExifDate(tags.date) : undefined;
+
+  const exifEntries: IfdEntry[] = [
+    {
+      tag: 0x9286,
+      type: TIFF_UNDEFINED,
+      value: Buffer.concat([Buffer.from("ASCII\0\0\0", "latin1"), Buffer.from(tags.url, "latin1")])
+    }
+  ];
+  if (exifDate) {
+    exifEntries.push(asciiEntry(0x9003, exifDate));
+  }
+
+  const ifd0Entries: IfdEntry[] = [
+    asciiEntry(0x010e, description),
+    asciiEntry(0x013b, tags.author),
+    { tag: 0x8769, type: TIFF_LONG, value: Buffer.alloc(4) }
+  ];
+  if (exifDate) {
+    ifd0Entries.push(asciiEntry(0x0132, exifDate));
+  }
+
+  // IFD0 is laid out first to learn where the Exif sub-IFD starts, then the
+  // pointer entry is filled in and IFD0 rebuilt with the real offset.
+  const firstPass = buildIfd(ifd0Entries, tiffHeader.length);
+  const exifIfdOffset = tiffHeader.length + firstPass.length;
+  const pointer = ifd0Entries.find((entry) => entry.tag === 0x8769);
+  pointer?.value.writeUInt32LE(exifIfdOffset, 0);
+
+  const ifd0 = buildIfd(ifd0Entries, tiffHeader.length);
+  const exifIfd = buildIfd(exifEntries, exifIfdOffset);
+  return Buffer.concat([EXIF_SIGNATURE, tiffHeader, ifd0, exifIfd]);
+}
+
+function buildXmpPayload(tags: TweetTags): Buffer {
+  const budget = MAX_JPEG_SEGMENT_PAYLOAD - XMP_SIGNATURE.length - 1024;
+  const text = tags.text ? truncateUtf8(tags.text, budget) : undefined;
+  const fields = [
+    text
+      ? `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt></dc:description>`
+      : "",
+    `<dc:creator><rdf:Seq><rdf:li>${escapeXml(tags.author)}</rdf:li></rdf:Seq></dc:creator>`,
+    `<dc:source>${escapeXml(tags.url)}</dc:source>`,
+    tags.date ? `<xmp:CreateDate>${tags.date.toISOString()}</xmp:CreateDate>` : ""
+  ].join("");
+
+  const packet =
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">' +
+    fields +
+    "</rdf:Description></rdf:RDF></x:xmpmeta>" +
+    '<?xpacket end="w"?>';
+
+  return Buffer.concat([XMP_SIGNATURE, Buffer.from(packet, "utf8")]);
+}
+
+function buildJpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt8(0xff, 0);
+  header.writeUInt8(marker, 1);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function isTweetMetadataSegment(marker: number, payload: Buffer): boolean {
+  if (marker !== JPEG_APP1) {
+    return false;
+  }
+
+  return (
+    payload.subarray(0, EXIF_SIGNATURE.length).equals(EXIF_SIGNATURE) ||
+    payload.subarray(0, XMP_SIGNATURE.length).equals(XMP_SIGNATURE)
+  );
+}
+
+// Replaces any existing EXIF/XMP APP1 segments with freshly built ones,
+// keeping a leading JFIF APP0 segment in front as the JFIF spec requires.
+function embedJpegTags(jpeg: Buffer, tags: TweetTags): Buffer | null {
+  if (jpeg.length < 4 || jpeg.readUInt16BE(0) !== JPEG_SOI) {
+    return null;
+  }
+
+  const leading: Buffer[] = [];
+  const kept: Buffer[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= jpeg.length) {
+    if (jpeg[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = jpeg[offset + 1];
+    if (marker === JPEG_SOS) {
+      break;
+    }
+
+    const length = jpeg.readUInt16BE(offset + 2);
+    const segment = jpeg.subarray(offset, offset + 2 + length);
+    const payload = segment.subarray(4);
+
+    if (marker === JPEG_APP0 && leading.length === 0 && kept.length === 0) {
+      leading.push(segment);
+    } else if (!isTweetMetadataSegment(marker, payload)) {
+      kept.push(segment);
+    }
+
+    offset += 2 + length;
+  }
+
+  return Buffer.concat([
+    jpeg.subarray(0, 2),
+    ...leading,
+    buildJpegSegment(JPEG_APP1, buildExifPayload(tags)),
+    buildJpegSegment(JPEG_APP1, buildXmpPayload(tags)),
+    ...kept,
+    jpeg.subarray(offset)
+  ]);
+}
+
+function readBoxHeader(buffer: Buffer, start: number, limit: number): BoxHeader | null {
+  if (start + 8 > limit) {
+    return null;
+  }
+
+  let size = buffer.readUInt32BE(start);
+  const type = buffer.toString("latin1", start + 4, start + 8);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (start + 16 > limit) {
+      return null;
+    }
+    size = Number(buffer.readBigUInt64BE(start + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - start;
+  }
+
+  if (size < headerSize || start + size > limit) {
+    return null;
+  }
+
+  return { type, start, headerSize, size };
+}
+
+function buildBox(type: string, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+function buildIlstItem(type: string, value: string): Buffer {
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.writeUInt32BE(1, 0); // well-known type 1: UTF-8 text
+  return buildBox(type, buildBox("data", dataHeader, Buffer.from(value, "utf8")));
+}
+
+function buildUdtaBox(tags: TweetTags): Buffer {
+  const hdlr = Buffer.alloc(25);
+  hdlr.write("mdir", 8, "latin1");
+  hdlr.write("appl", 12, "latin1");
+
+  const comment = tags.text ? `${tags.url}\n${tags.text}` : tags.url;
+  const items = [buildIlstItem("©ART", tags.author), buildIlstItem("©cmt", comment)];
+  if (tags.date) {
+    items.push(buildIlstItem("©day", tags.date.toISOString()));
+  }
+
+  return buildBox(
+    "udta",
+    buildBox("meta", Buffer.alloc(4), buildBox("hdlr", hdlr), buildBox("ilst", ...items))
+  );
+}
+
+// Chunk offsets are absolute file positions, so every offset pointing past
+// the original moov has to move by however much the moov grew or shrank.
+function shiftChunkOffsets(moov: Buffer, start: number, end: number, boundary: number, delta: number): void {
+  let offset = start;
+  while (offset < end) {
+    const box = readBoxHeader(moov, offset, end);
+    if (!box) {
+      throw new Error("Malformed MP4 box inside moov.");
+    }
+
+    const bodyStart = box.start + box.headerSize;
+    if (MP4_CONTAINER_BOXES.has(box.type)) {
+      shiftChunkOffsets(moov, bodyStart, box.start + box.size, boundary, delta);
+    } else if (box.type === "stco" || box.type === "co64") {
+      const count = moov.readUInt32BE(bodyStart + 4);
+      for (let index = 0; index < count; index += 1) {
+        if (box.type === "stco") {
+          const position = bodyStart + 8 + index * 4;
+          const value = moov.readUInt32BE(position);
+          if (value >= boundary) {
+            const shifted = value + delta;
+            if (shifted > 0xffffffff) {
+              throw new Error("MP4 chunk offset overflow.");
+            }
+            moov.writeUInt32BE(shifted, position);
+          }
+        } else {
+          const position = bodyStart + 8 + index * 8;
+          const value = moov.readBigUInt64BE(position);
+          if (value >= BigInt(boundary)) {
+            moov.writeBigUInt64BE(value + BigInt(delta), position);
+          }
+        }
+      }
+    }
+
+    offset = box.start + box.size;
+  }
+}
+
+function rebuildMoov(moov: Buffer, tags: TweetTags, moovEnd: number): Buffer {
+  const header = readBoxHeader(moov, 0, moov.length);
+  if (!header) {
+    throw new Error("Malformed moov box.");
+  }
+
+  const children: Buffer[] = [];
+  let offset = header.headerSize;
+  while (offset < moov.length) {
+    const box = readBoxHeader(moov, offset, moov.length);
+    if (!box) {
+      throw new Error("Malformed MP4 box inside moov.");
+    }
+
+    if (box.type !== "udta") {
+      children.push(moov.subarray(box.start, box.start + box.size));
+    }
+    offset = box.start + box.size;
+  }
+
+  const rebuilt = buildBox("moov", ...children, buildUdtaBox(tags));
+  const delta = rebuilt.length - moov.length;
+  if (delta !== 0) {
+    const rebuiltHeader = readBoxHeader(rebuilt, 0, rebuilt.length);
+    shiftChunkOffsets(rebuilt, rebuiltHeader?.headerSize ?? 8, rebuilt.length, moovEnd, delta);
+  }
+
+  return rebuilt;
+}
+
+async function readTopLevelBoxes(handle: FileHandle, fileSize: number): Promise<BoxHeader[]> {
+  const boxes: BoxHeader[] = [];
+  const scratch = Buffer.alloc(16);
+  let offset = 0;
+
+  while (offset + 8 <= fileSize) {
+    const { bytesRead } = await handle.read(scratch, 0, 16, offset);
+    let size = scratch.readUInt32BE(0);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (bytesRead < 16) {
+        throw new Error("Malformed top-level MP4 box.");
+      }
+      size = Number(scratch.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = fileSize - offset;
+    }
+
+    if (size < headerSize || offset + size > fileSize) {
+      throw new Error("Malformed top-level MP4 box.");
+    }
+
+    boxes.push({ type: scratch.toString("latin1", 4, 8), start: offset, headerSize, size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+async function copyRange(source: FileHandle, target: FileHandle, start: number, end: number): Promise<void> {
+  const buffer = Buffer.alloc(COPY_CHUNK_SIZE);
+  let position = start;
+  while (position < end) {
+    const length = Math.min(buffer.length, end - position);
+    const { bytesRead } = await source.read(buffer, 0, length, position);
+    if (bytesRead === 0) {
+      throw new Error("Unexpected end of MP4 file.");
+    }
+    await target.write(buffer.subarray(0, bytesRead));
+    position += bytesRead;
+  }
+}
+
+// Streams everything except the moov box so large videos are never held in
+// memory. Fragmented files are left untouched because their fragment
+// offsets cannot be shifted safely.
+async function embedMp4Tags(path: string, tags: TweetTags): Promise<boolean> {
+  const source = await open(path, "r");
+  const tempPath = `${path}.tagging`;
+
+  try {
+    const { size: fileSize } = await source.stat();
+    const boxes = await readTopLevelBoxes(source, fileSize);
+    if (boxes[0]?.type !== "ftyp" || boxes.some((box) => box.type === "moof")) {
+      return false;
+    }
+
+    const moovBox = boxes.find((box) => box.type === "moov");
+    if (!moovBox) {
+      return false;
+    }
+
+    const moov = Buffer.alloc(moovBox.size);
+    await source.read(moov, 0, moovBox.size, moovBox.start);
+    const rebuilt = rebuildMoov(moov, tags, moovBox.start + moovBox.size);
+
+    const target = await open(tempPath, "w");
+    try {
+      await copyRange(source, target, 0, moovBox.start);
+      await target.write(rebuilt);
+      await copyRange(source, target, moovBox.start + moovBox.size, fileSize);
+    } finally {
+      await target.close();
+    }
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  } finally {
+    await source.close();
+  }
+
+  await rename(tempPath, path);
+  return true;
+}
+
+async function embedImageTags(path: string, tags: TweetTags): Promise<boolean> {
+  const original = await readFile(path);
+  const tagged = embedJpegTags(original, tags);
+  if (!tagged) {
+    return false;
+  }
+
+  const tempPath = `${path}.tagging`;
+  await writeFile(tempPath, tagged);
+  await rename(tempPath, path);
+  return true;
+}
+
+// Writes tweet URL, author, date and text into the file itself and stamps
+// the file's mtime with the tweet time. Formats other than JPEG and plain
+// MP4 are only timestamped. Returns whether tags were embedded.
+export async function embedTweetMetadata(path: string, item: MediaItem): Promise<boolean> {
+  const tags = buildTweetTags(item);
+  const embedded =
+    item.kind === "image" ? await embedImageTags(path, tags) : await embedMp4Tags(path, tags);
+
+  if (tags.date) {
+    await utimes(path, tags.date, tags.date);
+  }
+
+  return embedded;
+}
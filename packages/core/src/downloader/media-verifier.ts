@@ -0,0 +1,212 @@
+import { join } from "node:path";
+import type { MediaItem } from "@huangjz11/shared";
+import {
+  computeFileDigest,
+  loadDownloadedMediaCache,
+  type DownloadedMediaCacheState,
+  type DownloadedMediaRecord
+} from "./downloaded-media-cache.js";
+import { downloadMediaBatch, type DownloadMediaBatchResult } from "./media-downloader.js";
+
+export type VerifyEntryStatus = "ok" | "missing" | "size_mismatch" | "hash_mismatch";
+
+export interface VerifyEntry {
+  key: string;
+  path: string;
+  status: VerifyEntryStatus;
+  username: string;
+  tweetId: string;
+  mediaId: string;
+  expectedSize: number;
+  actualSize?: number;
+}
+
+export interface VerifyDownloadedMediaInput {
+  outputDir: string;
+  repair?: boolean;
+  concurrency?: number;
+  retryCount?: number;
+  perRequestDelayMs?: number;
+}
+
+export interface VerifyDownloadedMediaResult {
+  checked: number;
+  ok: number;
+  missing: number;
+  mismatched: number;
+  unverified: number;
+  problems: VerifyEntry[];
+  repair?: DownloadMediaBatchResult;
+}
+
+async function verifyRecord(
+  outputDir: string,
+  key: string,
+  record: DownloadedMediaRecord
+): Promise<VerifyEntry> {
+  const entry: VerifyEntry = {
+    key,
+    path: record.path,
+    status: "ok",
+    username: record.item.username,
+    tweetId: record.item.tweetId,
+    mediaId: record.item.id,
+    expectedSize: record.size
+  };
+
+  let digest: { size: number; sha256: string };
+  try {
+    digest = await computeFileDigest(join(outputDir, record.path));
+  } catch {
+    entry.status = "missing";
+    return entry;
+  }
+
+  entry.actualSize = digest.size;
+  if (digest.size !== record.size) {
+    entry.status = "size_mismatch";
+  } else if (digest.sha256 !== record.sha256) {
+    entry.status = "hash_mismatch";
+  }
+
+  return entry;
+}
+
+interface RepairBatch {
+  username: string;
+  writeMetadata: boolean;
+  embedMetadata: boolean;
+  items: MediaItem[];
+}
+
+async function repairEntries(
+  input: VerifyDownloadedMediaInput,
+  cache: DownloadedMediaCacheState,
+  entries: Array<[string, DownloadedMediaRecord]>
+): Promise<DownloadMediaBatchResult> {
+  // Re-download to the exact recorded path: it may come from a filename
+  // template or a source folder that can no longer be derived from the item.
+  const targetPaths = new Map<string, string>();
+  const batches = new Map<string, RepairBatch>();
+  for (const [key, record] of entries) {
+    targetPaths.set(key, record.path);
+    const writeMetadata = record.writeMetadata === true;
+    const embedMetadata = record.embedMetadata === true;
+    const batchKey = [record.item.username, writeMetadata, embedMetadata].join("|");
+    const batch = batches.get(batchKey) ?? {
+      username: record.item.username,
+      writeMetadata,
+      embedMetadata,
+      items: []
+    };
+    batch.items.push({ ...record.item });
+    batches.set(batchKey, batch);
+  }
+
+  const combined: DownloadMediaBatchResult = {
+    total: 0,
+    downloaded: 0,
+    failed: 0,
+    skipped: 0,
+    failureDetails: []
+  };
+
+  for (const batch of batches.values()) {
+    // The sidecar lists every media of its tweet, so the intact ones ride
+    // along (and settle as skipped) to keep it complete when it is rewritten.
+    const companions = batch.writeMetadata ? collectTweetCompanions(cache, batch, targetPaths) : [];
+    const result = await downloadMediaBatch({
+      items: [...batch.items, ...companions],
+      outputDir: input.outputDir,
+      concurrency: input.concurrency,
+      retryCount: input.retryCount,
+      perRequestDelayMs: input.perRequestDelayMs,
+      username: batch.username,
+      writeMetadata: batch.writeMetadata,
+      embedMetadata: batch.embedMetadata,
+      targetPaths,
+      cache
+    });
+
+    combined.total += result.total - companions.length;
+    combined.downloaded += result.downloaded;
+    combined.failed += result.failed;
+    combined.skipped += result.skipped - companions.length;
+    combined.failureDetails.push(...result.failureDetails);
+  }
+
+  return combined;
+}
+
+function collectTweetCompanions(
+  cache: DownloadedMediaCacheState,
+  batch: RepairBatch,
+  targetPaths: Map<string, string>
+): MediaItem[] {
+  const tweetIds = new Set(batch.items.map((item) => item.tweetId));
+  const companions: MediaItem[] = [];
+  for (const [key, record] of cache.records) {
+    if (
+      !targetPaths.has(key) &&
+      record.item.username === batch.username &&
+      tweetIds.has(record.item.tweetId)
+    ) {
+      companions.push({ ...record.item });
+    }
+  }
+
+  return companions;
+}
+
+export async function verifyDownloadedMedia(
+  input: VerifyDownloadedMediaInput
+): Promise<VerifyDownloadedMediaResult> {
+  const cache = await loadDownloadedMediaCache(input.outputDir);
+  const result: VerifyDownloadedMediaResult = {
+    checked: 0,
+    ok: 0,
+    missing: 0,
+    mismatched: 0,
+    unverified: 0,
+    problems: []
+  };
+
+  for (const key of cache.mediaKeys) {
+    if (!cache.records.has(key)) {
+      result.unverified += 1;
+    }
+  }
+
+  for (const [key, record] of cache.records) {
+    const entry = await verifyRecord(input.outputDir, key, record);
+    result.checked += 1;
+
+    if (entry.status === "ok") {
+      result.ok += 1;
+      continue;
+    }
+
+    if (entry.status === "missing") {
+      result.missing += 1;
+    } else {
+      result.mismatched += 1;
+    }
+
+    result.problems.push(entry);
+  }
+
+  if (!input.repair || result.problems.length === 0) {
+    return result;
+  }
+
+  const requeued: Array<[string, DownloadedMediaRecord]> = [];
+  for (const problem of result.problems) {
+    const record = cache.records.get(problem.key);
+    if (record) {
+      requeued.push([problem.key, record]);
+    }
+  }
+
+  result.repair = await repairEntries(input, cache, requeued);
+  return result;
+}
@@ -0,0 +1,89 @@
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { MediaItem, MediaRelation, TweetMetrics } from "@huangjz11/shared";
+import { sanitizePathPart } from "../utils/path.js";
+import { nowIso } from "../utils/time.js";
+
+export interface SavedMedia {
+  item: MediaItem;
+  relativePath: string;
+}
+
+interface TweetMetadataSidecar {
+  version: number;
+  savedAt: string;
+  tweetId: string;
+  url: string;
+  username: string;
+  relation: MediaRelation;
+  author: string;
+  createdAt?: string;
+  text?: string;
+  lang?: string;
+  metrics?: TweetMetrics;
+  media: Array<{
+    id: string;
+    index?: number;
+    kind: MediaItem["kind"];
+    url: string;
+    path: string;
+  }>;
+}
+
+const TWEET_METADATA_SIDECAR_VERSION = 1;
+
+function buildSidecar(tweetId: string, saved: SavedMedia[]): TweetMetadataSidecar {
+  const first = saved[0].item;
+  const media = saved
+    .map(({ item, relativePath }) => ({
+      id: item.id,
+      index: item.index,
+      kind: item.kind,
+      url: item.url,
+      path: relativePath
+    }))
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+  const author = first.author ?? first.username;
+  return {
+    version: TWEET_METADATA_SIDECAR_VERSION,
+    savedAt: nowIso(),
+    tweetId,
+    url: `https://x.com/${author}/status/${tweetId}`,
+    username: first.username,
+    relation: first.relation ?? "original",
+    author,
+    createdAt: first.createdAt,
+    text: first.text,
+    lang: first.lang,
+    metrics: first.metrics,
+    media
+  };
+}
+
+// Writes one `<tweetId>.json` per tweet next to its first media file. The
+// file is rewritten on every run so counts reflect the latest fetch.
+export async function writeTweetMetadataSidecars(
+  outputDir: string,
+  saved: SavedMedia[]
+): Promise<void> {
+  const byTweet = new Map<string, SavedMedia[]>();
+  for (const entry of saved) {
+    const list = byTweet.get(entry.item.tweetId) ?? [];
+    list.push(entry);
+    byTweet.set(entry.item.tweetId, list);
+  }
+
+  for (const [tweetId, entries] of byTweet) {
+    const directory = join(outputDir, dirname(entries[0].relativePath));
+    const path = join(directory, `${sanitizePathPart(tweetId)}.json`);
+
+    try {
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${path}.tmp`;
+      await writeFile(tempPath, JSON.stringify(buildSidecar(tweetId, entries), null, 2));
+      await rename(tempPath, path);
+    } catch {
+    }
+  }
+}
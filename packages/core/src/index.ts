@@ -1,25 +1,70 @@
 export {
   createSessionStore,
+  DEFAULT_SESSION_PROFILE,
+  listSessionProfiles,
+  loginFromBrowser,
   loginInteractively,
   loginWithCookies,
   logout,
   parseCookies,
+  SESSION_KEY_ENV,
   validateRequiredCookies,
+  validateSessionProfileName,
   whoami,
   type InteractiveLoginInput,
+  type LoginFromBrowserInput,
   type LoginWithCookiesInput,
   type SessionStore,
   type SessionStoreOptions,
   type WhoAmIResult
 } from "./auth/session-store.js";
 
+export { COOKIE_BROWSERS, type CookieBrowser } from "./auth/browser-cookies.js";
+
 export {
-  createMediaScraper,
-  type CreateMediaScraperInput,
+  type EngineReport,
+  type FetchSourceMediaInput,
+  type FetchTweetMediaInput,
   type FetchUserMediaInput,
-  type MediaScraper
+  type MediaScraper,
+  type TimelinePageReport,
+  type TimelineWalkEnd
 } from "./scraper/media-scraper.js";
 
+export {
+  createMediaScraper,
+  DEFAULT_ENGINE_CHAIN,
+  getScraperEngine,
+  listScraperEngines,
+  parseEngineChain,
+  registerScraperEngine,
+  type CreateMediaScraperInput,
+  type ScraperEngineCapabilities,
+  type ScraperEngineDefinition
+} from "./scraper/engine-registry.js";
+
+export { describeMediaSource, getMediaSourceDirectory } from "./scraper/media-source.js";
+
+export {
+  verifyGraphqlSession,
+  type VerifyGraphqlSessionOptions
+} from "./scraper/graphql-media-scraper.js";
+
+export {
+  type RateLimitBudget,
+  type RateLimitWait,
+  type RateLimitWaitListener,
+  type SessionHealth,
+  type SessionHealthStatus
+} from "./scraper/rate-limiter.js";
+
+export {
+  createDownloadThrottle,
+  DEFAULT_HOST_CONCURRENCY,
+  type DownloadThrottle,
+  type DownloadThrottleOptions
+} from "./downloader/download-throttle.js";
+
 export {
   downloadMediaBatch,
   type DownloadMediaBatchInput,
@@ -27,7 +72,31 @@ export {
 } from "./downloader/media-downloader.js";
 
 export {
+  verifyDownloadedMedia,
+  type VerifyDownloadedMediaInput,
+  type VerifyDownloadedMediaResult,
+  type VerifyEntry,
+  type VerifyEntryStatus
+} from "./downloader/media-verifier.js";
+
+export {
+  resumeBatchJob,
   runBatchJob,
   summarizeJobResult,
-  type BatchJobRunInput
+  type BatchJobRunInput,
+  type ResumeBatchJobInput
 } from "./orchestrator/run-batch-job.js";
+
+export { listJobJournals, type JobJournalSummary } from "./orchestrator/job-journal.js";
+
+export { type BatchJobAccount } from "./orchestrator/account-pool.js";
+
+export {
+  DEFAULT_FILENAME_TEMPLATE,
+  renderMediaPath,
+  validateFilenameTemplate
+} from "./utils/path.js";
+
+export { parseDateBound } from "./utils/time.js";
+
+export { parseTweetReference } from "./utils/tweet-id.js";
@@ -0,0 +1,195 @@
+import type { ScraperEngine } from "@huangjz11/shared";
+import type { SessionStore } from "../auth/session-store.js";
+import { createMediaScraper } from "../scraper/engine-registry.js";
+import type { MediaScraper } from "../scraper/media-scraper.js";
+import type { AccountLimitError } from "../scraper/rate-limiter.js";
+import { nowIso } from "../utils/time.js";
+
+export interface BatchJobAccount {
+  store: SessionStore;
+  scraper?: MediaScraper;
+}
+
+export interface ActiveAccount {
+  index: number;
+  profile: string;
+  scraper: MediaScraper;
+}
+
+interface PooledAccount {
+  profile: string;
+  store: SessionStore;
+  scraper?: MediaScraper;
+  // Set once the account's session is loaded; shared so users failing over
+  // at the same time do not initialize it twice.
+  ready?: Promise<MediaScraper | undefined>;
+  authFailed: boolean;
+  limitedUntilMs: number;
+  // Latest save of cookies the scraper renewed; saves run one after another
+  // so an older cookie list never overwrites a newer one.
+  saving?: Promise<void>;
+}
+
+export interface AccountPoolHandle {
+  accounts: PooledAccount[];
+  current: ActiveAccount;
+  engine?: ScraperEngine | ScraperEngine[];
+}
+
+// Used when a rate limit error does not say when the window resets.
+const DEFAULT_ACCOUNT_COOLDOWN_MS = 60 * 1000;
+
+function queueCookieSave(account: PooledAccount, cookies: string[]): void {
+  const previous = account.saving;
+  account.saving = (async () => {
+    await previous;
+    try {
+      await account.store.save({ cookies, updatedAt: nowIso(), valid: true });
+    } catch {
+    }
+  })();
+}
+
+// Renewed cookies go back to the account's own profile, so the next run
+// starts from them instead of refreshing again.
+function persistRenewedCookies(account: PooledAccount, scraper: MediaScraper): void {
+  scraper.onCookiesUpdated?.((cookies) => {
+    queueCookieSave(account, cookies);
+  });
+}
+
+// The primary account is the one the job was started with and is already
+// initialized; the others are loaded only when the job first switches to them.
+export function createAccountPool(
+  primary: { store: SessionStore; scraper: MediaScraper },
+  fallbacks: BatchJobAccount[],
+  engine?: ScraperEngine | ScraperEngine[]
+): AccountPoolHandle {
+  const accounts: PooledAccount[] = [
+    {
+      profile: primary.store.profile,
+      store: primary.store,
+      scraper: primary.scraper,
+      ready: Promise.resolve(primary.scraper),
+      authFailed: false,
+      limitedUntilMs: 0
+    }
+  ];
+  persistRenewedCookies(accounts[0], primary.scraper);
+
+  for (const account of fallbacks) {
+    if (accounts.some((existing) => existing.store.path === account.store.path)) {
+      continue;
+    }
+
+    accounts.push({
+      profile: account.store.profile,
+      store: account.store,
+      scraper: account.scraper,
+      authFailed: false,
+      limitedUntilMs: 0
+    });
+  }
+
+  return {
+    accounts,
+    current: { index: 0, profile: primary.store.profile, scraper: primary.scraper },
+    engine
+  };
+}
+
+export function hasFallbackAccounts(pool: AccountPoolHandle): boolean {
+  return pool.accounts.length > 1;
+}
+
+function isAccountUsable(account: PooledAccount, now: number): boolean {
+  return !account.authFailed && account.limitedUntilMs <= now;
+}
+
+// True when a limit on the current account could be answered by switching,
+// which is when scrapers should fail fast instead of waiting.
+export function canSwitchAccount(pool: AccountPoolHandle): boolean {
+  const now = Date.now();
+  return pool.accounts.some(
+    (account, index) => index !== pool.current.index && isAccountUsable(account, now)
+  );
+}
+
+async function loadAccountScraper(
+  pool: AccountPoolHandle,
+  account: PooledAccount
+): Promise<MediaScraper | undefined> {
+  try {
+    const session = await account.store.load();
+    if (!session || session.cookies.length === 0) {
+      return undefined;
+    }
+
+    const scraper = account.scraper ?? createMediaScraper({ engine: pool.engine });
+    await scraper.initialize(session);
+    persistRenewedCookies(account, scraper);
+    account.scraper = scraper;
+    return scraper;
+  } catch {
+    return undefined;
+  }
+}
+
+// Marks the account that hit the limit and moves the pool to the next usable
+// account after it. Returns undefined when none is left, in which case the
+// caller fails the way it would without fallbacks.
+export async function switchAccount(
+  pool: AccountPoolHandle,
+  failed: ActiveAccount,
+  limit: AccountLimitError
+): Promise<ActiveAccount | undefined> {
+  const failedAccount = pool.accounts[failed.index];
+  if (limit.reason === "auth") {
+    failedAccount.authFailed = true;
+  } else {
+    failedAccount.limitedUntilMs = Math.max(
+      failedAccount.limitedUntilMs,
+      limit.retryAtMs ?? Date.now() + DEFAULT_ACCOUNT_COOLDOWN_MS
+    );
+  }
+
+  // Another user may have switched already while this one was failing.
+  const current = pool.accounts[pool.current.index];
+  if (pool.current.index !== failed.index && isAccountUsable(current, Date.now())) {
+    return pool.current;
+  }
+
+  for (let offset = 1; offset < pool.accounts.length; offset += 1) {
+    const index = (failed.index + offset) % pool.accounts.length;
+    const account = pool.accounts[index];
+    if (!isAccountUsable(account, Date.now())) {
+      continue;
+    }
+
+    account.ready ??= loadAccountScraper(pool, account);
+    const scraper = await account.ready;
+    if (!scraper) {
+      account.authFailed = true;
+      continue;
+    }
+
+    pool.current = { index, profile: account.profile, scraper };
+    return pool.current;
+  }
+
+  return undefined;
+}
+
+export async function closeAccountPool(pool: AccountPoolHandle): Promise<void> {
+  for (const account of pool.accounts) {
+    await account.saving;
+  }
+
+  // The primary scraper belongs to the job, which closes it itself.
+  for (const account of pool.accounts.slice(1)) {
+    const scraper = account.ready ? await account.ready : undefined;
+    if (scraper && typeof scraper.close === "function") {
+      await scraper.close();
+    }
+  }
+}
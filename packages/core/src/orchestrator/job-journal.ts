@@ -0,0 +1,357 @@
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { BatchJobInput, JobResult, MediaItem } from "@huangjz11/shared";
+import { buildDownloadedMediaKey } from "../downloader/downloaded-media-cache.js";
+import { nowIso } from "../utils/time.js";
+
+export type JobJournalStatus = "running" | "completed";
+export type JournalTargetStatus = "pending" | "fetched" | "completed" | "failed";
+export type JournalMediaStatus = "downloaded" | "skipped" | "failed";
+
+// How far an unfinished user got. Only pages whose media all settled without
+// a failure count, so a resumed run continues below `beforeTweetId` and
+// starts its tally from these numbers.
+export interface JournalUserProgress {
+  beforeTweetId: string;
+  newestTweetId?: string;
+  tweets: number;
+  total: number;
+  downloaded: number;
+  skipped: number;
+}
+
+export interface JournalTarget {
+  status: JournalTargetStatus;
+  items?: MediaItem[];
+  progress?: JournalUserProgress;
+}
+
+export interface JobJournalSummary {
+  jobId: string;
+  status: JobJournalStatus;
+  createdAt: string;
+  updatedAt: string;
+  outputDir: string;
+  users: number;
+  tweets: number;
+  sources: number;
+}
+
+interface JobJournalFile {
+  version: number;
+  jobId: string;
+  status: JobJournalStatus;
+  createdAt: string;
+  updatedAt: string;
+  input: BatchJobInput;
+  targets: Record<string, JournalTarget>;
+  // Only in version 1 journals; media state now lives in the media log.
+  media?: Record<string, JournalMediaStatus>;
+  result?: JobResult;
+}
+
+export interface JobJournalHandle {
+  path: string;
+  jobId: string;
+  status: JobJournalStatus;
+  createdAt: string;
+  updatedAt: string;
+  input: BatchJobInput;
+  targets: Map<string, JournalTarget>;
+  media: Map<string, JournalMediaStatus>;
+  // Media settled since the last flush, appended to the media log.
+  pendingMedia: Array<[string, JournalMediaStatus]>;
+  // Whether targets or the result changed since the journal file was written.
+  dirty: boolean;
+  // Result as of the last finished target; in-flight targets are excluded so
+  // a resumed run can count them again without doubling.
+  result?: JobResult;
+  flushTimer?: NodeJS.Timeout;
+  writing: Promise<void>;
+}
+
+const JOB_JOURNAL_VERSION = 2;
+const LEGACY_JOB_JOURNAL_VERSION = 1;
+const JOB_MEDIA_STATUSES = new Set<JournalMediaStatus>(["downloaded", "skipped", "failed"]);
+const JOB_JOURNAL_DIR_NAME = "jobs";
+const JOB_JOURNAL_FLUSH_DELAY_MS = 1000;
+const JOB_ID_PATTERN = /^[0-9]{8}-[0-9]{6}-[0-9a-f]{4}$/;
+
+function getJobJournalDir(outputDir: string): string {
+  return join(outputDir, ".twmd-cache", JOB_JOURNAL_DIR_NAME);
+}
+
+function getJobJournalPath(outputDir: string, jobId: string): string {
+  return join(getJobJournalDir(outputDir), `${jobId}.json`);
+}
+
+// One JSON line per settled media, so a long job appends a line per media
+// instead of rewriting every status on each flush.
+function getJobMediaLogPath(journalPath: string): string {
+  return journalPath.replace(/\.json$/, ".media.log");
+}
+
+async function readJobMediaLog(path: string, media: Map<string, JournalMediaStatus>): Promise<void> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch {
+    return;
+  }
+
+  // The last line may be cut short by a crash; later lines win.
+  for (const line of raw.split("\n")) {
+    try {
+      const entry = JSON.parse(line) as unknown;
+      if (
+        Array.isArray(entry) &&
+        typeof entry[0] === "string" &&
+        JOB_MEDIA_STATUSES.has(entry[1] as JournalMediaStatus)
+      ) {
+        media.set(entry[0], entry[1] as JournalMediaStatus);
+      }
+    } catch {
+    }
+  }
+}
+
+function createJobId(): string {
+  const stamp = nowIso().replace(/\.\d+Z$/, "").replace(/[-:]/g, "").replace("T", "-");
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+export function isJobId(value: string): boolean {
+  return JOB_ID_PATTERN.test(value);
+}
+
+export function getUserTargetKey(username: string): string {
+  return `user:${username.replace(/^@/, "").trim().toLowerCase()}`;
+}
+
+export function getTweetTargetKey(tweetId: string): string {
+  return `tweet:${tweetId}`;
+}
+
+export function getSourceTargetKey(label: string): string {
+  return `source:${label}`;
+}
+
+export function createJobJournal(input: BatchJobInput): JobJournalHandle {
+  const jobId = createJobId();
+  const createdAt = nowIso();
+  return {
+    path: getJobJournalPath(input.outputDir, jobId),
+    jobId,
+    status: "running",
+    createdAt,
+    updatedAt: createdAt,
+    input,
+    targets: new Map(),
+    media: new Map(),
+    pendingMedia: [],
+    dirty: true,
+    writing: Promise.resolve()
+  };
+}
+
+export async function loadJobJournal(
+  outputDir: string,
+  jobId: string
+): Promise<JobJournalHandle | null> {
+  if (!isJobId(jobId)) {
+    return null;
+  }
+
+  const path = getJobJournalPath(outputDir, jobId);
+  let parsed: Partial<JobJournalFile>;
+  try {
+    parsed = JSON.parse(await readFile(path, "utf8")) as Partial<JobJournalFile>;
+  } catch {
+    return null;
+  }
+
+  if (
+    (parsed.version !== JOB_JOURNAL_VERSION && parsed.version !== LEGACY_JOB_JOURNAL_VERSION) ||
+    !parsed.input ||
+    typeof parsed.createdAt !== "string"
+  ) {
+    return null;
+  }
+
+  const media = new Map(Object.entries(parsed.media ?? {}));
+  await readJobMediaLog(getJobMediaLogPath(path), media);
+
+  return {
+    path,
+    jobId,
+    status: parsed.status === "completed" ? "completed" : "running",
+    createdAt: parsed.createdAt,
+    updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : parsed.createdAt,
+    // The output directory may have been moved since the job started.
+    input: { ...parsed.input, outputDir },
+    targets: new Map(Object.entries(parsed.targets ?? {})),
+    media,
+    // Statuses from a version 1 journal move to the log on the first flush.
+    pendingMedia: parsed.media ? Array.from(media) : [],
+    dirty: false,
+    result: parsed.result,
+    writing: Promise.resolve()
+  };
+}
+
+export async function listJobJournals(outputDir: string): Promise<JobJournalSummary[]> {
+  let names: string[];
+  try {
+    names = await readdir(getJobJournalDir(outputDir));
+  } catch {
+    return [];
+  }
+
+  const summaries: JobJournalSummary[] = [];
+  for (const name of names) {
+    const jobId = name.replace(/\.json$/, "");
+    if (!name.endsWith(".json") || !isJobId(jobId)) {
+      continue;
+    }
+
+    const journal = await loadJobJournal(outputDir, jobId);
+    if (!journal) {
+      continue;
+    }
+
+    summaries.push({
+      jobId,
+      status: journal.status,
+      createdAt: journal.createdAt,
+      updatedAt: journal.updatedAt,
+      outputDir,
+      users: journal.input.users.length,
+      tweets: journal.input.tweets?.length ?? 0,
+      sources: journal.input.sources?.length ?? 0
+    });
+  }
+
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getJournalTarget(handle: JobJournalHandle, key: string): JournalTarget | undefined {
+  return handle.targets.get(key);
+}
+
+export function recordTargetFetched(
+  handle: JobJournalHandle,
+  key: string,
+  items: MediaItem[]
+): void {
+  handle.targets.set(key, { status: "fetched", items });
+  handle.dirty = true;
+  scheduleJobJournalFlush(handle);
+}
+
+export function recordUserProgress(
+  handle: JobJournalHandle,
+  key: string,
+  progress: JournalUserProgress
+): void {
+  handle.targets.set(key, { status: "pending", progress });
+  handle.dirty = true;
+  scheduleJobJournalFlush(handle);
+}
+
+export function recordTargetFinished(
+  handle: JobJournalHandle,
+  key: string,
+  status: "completed" | "failed",
+  result: JobResult
+): void {
+  // Replacing the entry drops its fetched media list and user progress, which
+  // are only needed while the target is unfinished.
+  handle.targets.set(key, { status });
+  handle.result = structuredClone(result);
+  handle.dirty = true;
+  scheduleJobJournalFlush(handle);
+}
+
+export function recordJournalMedia(
+  handle: JobJournalHandle,
+  item: MediaItem,
+  status: JournalMediaStatus
+): void {
+  const key = buildDownloadedMediaKey(item);
+  handle.media.set(key, status);
+  handle.pendingMedia.push([key, status]);
+  scheduleJobJournalFlush(handle);
+}
+
+export function getJournalMediaStatus(
+  handle: JobJournalHandle,
+  item: MediaItem
+): JournalMediaStatus | undefined {
+  return handle.media.get(buildDownloadedMediaKey(item));
+}
+
+// Media state changes far more often than targets do, so writes are
+// coalesced; anything lost in the last interval is recovered from the
+// downloaded-media cache and the files on disk.
+function scheduleJobJournalFlush(handle: JobJournalHandle): void {
+  if (handle.flushTimer) {
+    return;
+  }
+
+  handle.flushTimer = setTimeout(() => {
+    handle.flushTimer = undefined;
+    void writeJobJournal(handle, false);
+  }, JOB_JOURNAL_FLUSH_DELAY_MS);
+  handle.flushTimer.unref();
+}
+
+export async function persistJobJournal(handle: JobJournalHandle): Promise<void> {
+  await writeJobJournal(handle, true);
+}
+
+// Appends settled media to the log and rewrites the journal file only when
+// targets or the result changed, or when forced for a status change.
+async function writeJobJournal(handle: JobJournalHandle, force: boolean): Promise<void> {
+  if (handle.flushTimer) {
+    clearTimeout(handle.flushTimer);
+    handle.flushTimer = undefined;
+  }
+
+  const mediaLines = handle.pendingMedia.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+  handle.pendingMedia = [];
+  let payload: JobJournalFile | undefined;
+  if (force || handle.dirty) {
+    handle.dirty = false;
+    handle.updatedAt = nowIso();
+    payload = {
+      version: JOB_JOURNAL_VERSION,
+      jobId: handle.jobId,
+      status: handle.status,
+      createdAt: handle.createdAt,
+      updatedAt: handle.updatedAt,
+      input: handle.input,
+      targets: Object.fromEntries(handle.targets),
+      result: handle.result
+    };
+  }
+
+  // Writes are chained so two flushes never race on the same temp file.
+  handle.writing = handle.writing.then(async () => {
+    try {
+      await mkdir(dirname(handle.path), { recursive: true });
+      if (mediaLines) {
+        await appendFile(getJobMediaLogPath(handle.path), mediaLines);
+      }
+
+      if (payload) {
+        const tempPath = `${handle.path}.tmp`;
+        await writeFile(tempPath, JSON.stringify(payload));
+        await rename(tempPath, handle.path);
+      }
+    } catch {
+    }
+  });
+
+  await handle.writing;
+}
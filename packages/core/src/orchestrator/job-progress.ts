@@ -0,0 +1,235 @@
+import type { JobEvent, JobEventMedia, MediaItem } from "@huangjz11/shared";
+import type { MediaOutcomeStatus, MediaSettledDetail } from "../downloader/media-downloader.js";
+import { nowIso } from "../utils/time.js";
+
+export interface JobProgressHandle {
+  // Events raised from downloader callbacks, waiting for the job generator to
+  // yield them.
+  events: JobEvent[];
+  wake?: () => void;
+  total: number;
+  downloaded: number;
+  failed: number;
+  skipped: number;
+  bytes: number;
+  // Media settled by the downloader itself; journaled media are excluded so
+  // they do not make the ETA look shorter than it is.
+  settledByDownloader: number;
+  startedAtMs?: number;
+  lastReportAtMs: number;
+  lastReportBytes: number;
+  bytesPerSecond?: number;
+}
+
+const PROGRESS_REPORT_INTERVAL_MS = 2000;
+// Weight of the latest interval in the smoothed throughput.
+const THROUGHPUT_SMOOTHING = 0.3;
+
+export function createJobProgress(): JobProgressHandle {
+  return {
+    events: [],
+    total: 0,
+    downloaded: 0,
+    failed: 0,
+    skipped: 0,
+    bytes: 0,
+    settledByDownloader: 0,
+    lastReportAtMs: 0,
+    lastReportBytes: 0
+  };
+}
+
+export function pushJobEvent(handle: JobProgressHandle, event: JobEvent): void {
+  handle.events.push(event);
+  handle.wake?.();
+}
+
+// Resolves on the next pushJobEvent; only the latest waiter is woken.
+export function waitForJobEvent(handle: JobProgressHandle): Promise<void> {
+  return new Promise((resolve) => {
+    handle.wake = resolve;
+  });
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KiB", "MiB", "GiB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m${seconds % 60}s`;
+  }
+
+  return `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+function describeMedia(item: MediaItem, bytes?: number, elapsedMs?: number): JobEventMedia {
+  const media: JobEventMedia = {
+    tweetId: item.tweetId,
+    mediaId: item.id,
+    kind: item.kind,
+    url: item.url
+  };
+
+  if (bytes !== undefined && elapsedMs !== undefined) {
+    media.bytes = bytes;
+    media.elapsedMs = elapsedMs;
+    media.bytesPerSecond = elapsedMs > 0 ? Math.round((bytes * 1000) / elapsedMs) : undefined;
+  }
+
+  return media;
+}
+
+function createMediaEvent(
+  type: JobEvent["type"],
+  message: string,
+  username: string,
+  media: JobEventMedia
+): JobEvent {
+  return {
+    type,
+    message,
+    timestamp: nowIso(),
+    username,
+    media
+  };
+}
+
+// Media an interrupted run already saved are counted straight away.
+export function addQueuedMedia(
+  handle: JobProgressHandle,
+  count: number,
+  journaled: { downloaded: number; skipped: number }
+): void {
+  handle.total += count;
+  handle.downloaded += journaled.downloaded;
+  handle.skipped += journaled.skipped;
+}
+
+export function recordMediaStarted(handle: JobProgressHandle, item: MediaItem, username: string): void {
+  handle.startedAtMs ??= Date.now();
+  pushJobEvent(
+    handle,
+    createMediaEvent(
+      "media_started",
+      `Downloading ${item.kind} ${item.id} from tweet ${item.tweetId}.`,
+      username,
+      describeMedia(item)
+    )
+  );
+}
+
+export function recordMediaBytes(handle: JobProgressHandle, bytes: number): void {
+  handle.bytes += bytes;
+  reportJobProgress(handle);
+}
+
+export function recordMediaSettled(
+  handle: JobProgressHandle,
+  item: MediaItem,
+  status: MediaOutcomeStatus,
+  detail: MediaSettledDetail,
+  username: string
+): void {
+  handle.startedAtMs ??= Date.now();
+  handle.settledByDownloader += 1;
+
+  if (status === "downloaded") {
+    handle.downloaded += 1;
+    const media = describeMedia(item, detail.bytes, detail.elapsedMs);
+    const ratePart = media.bytesPerSecond ? `, ${formatBytes(media.bytesPerSecond)}/s` : "";
+    pushJobEvent(
+      handle,
+      createMediaEvent(
+        "media_downloaded",
+        `Downloaded ${item.kind} ${item.id} (${formatBytes(detail.bytes)} in ${(detail.elapsedMs / 1000).toFixed(1)}s${ratePart}).`,
+        username,
+        media
+      )
+    );
+  } else if (status === "failed") {
+    handle.failed += 1;
+    const reason = detail.failure?.message ?? "unknown error";
+    pushJobEvent(
+      handle,
+      createMediaEvent(
+        "media_failed",
+        `Failed ${item.kind} ${item.id}: ${reason}`,
+        username,
+        describeMedia(item, detail.bytes, detail.elapsedMs)
+      )
+    );
+  } else {
+    handle.skipped += 1;
+    pushJobEvent(
+      handle,
+      createMediaEvent(
+        "media_skipped",
+        `Skipped ${item.kind} ${item.id}, already downloaded.`,
+        username,
+        describeMedia(item)
+      )
+    );
+  }
+
+  reportJobProgress(handle);
+}
+
+// Raised from byte and settle callbacks at most once per interval, so a quiet
+// job (for example one waiting on a rate limit) does not repeat itself.
+function reportJobProgress(handle: JobProgressHandle): void {
+  const now = Date.now();
+  const sinceLastMs = now - handle.lastReportAtMs;
+  if (sinceLastMs < PROGRESS_REPORT_INTERVAL_MS || handle.startedAtMs === undefined) {
+    return;
+  }
+
+  if (handle.lastReportAtMs > 0) {
+    const latest = ((handle.bytes - handle.lastReportBytes) * 1000) / sinceLastMs;
+    handle.bytesPerSecond =
+      handle.bytesPerSecond === undefined
+        ? latest
+        : THROUGHPUT_SMOOTHING * latest + (1 - THROUGHPUT_SMOOTHING) * handle.bytesPerSecond;
+  }
+  handle.lastReportAtMs = now;
+  handle.lastReportBytes = handle.bytes;
+
+  const settled = handle.downloaded + handle.failed + handle.skipped;
+  const remaining = Math.max(0, handle.total - settled);
+  const etaSeconds =
+    handle.settledByDownloader > 0
+      ? Math.round(((now - handle.startedAtMs) / handle.settledByDownloader / 1000) * remaining)
+      : undefined;
+
+  const ratePart =
+    handle.bytesPerSecond !== undefined ? `, ${formatBytes(Math.round(handle.bytesPerSecond))}/s` : "";
+  const etaPart = etaSeconds !== undefined ? `, ETA ${formatDuration(etaSeconds)}` : "";
+  pushJobEvent(handle, {
+    type: "job_progress",
+    message: `${settled}/${handle.total} media settled, ${formatBytes(handle.bytes)} received${ratePart}${etaPart}.`,
+    timestamp: nowIso(),
+    progress: {
+      total: handle.total,
+      downloaded: handle.downloaded,
+      failed: handle.failed,
+      skipped: handle.skipped,
+      bytes: handle.bytes,
+      bytesPerSecond:
+        handle.bytesPerSecond !== undefined ? Math.round(handle.bytesPerSecond) : undefined,
+      etaSeconds
+    }
+  });
+}
@@ -3,26 +3,99 @@ import type {
   FailureDetail,
   JobEvent,
   JobResult,
+  MediaItem,
   SessionData
 } from "@huangjz11/shared";
 import type { SessionStore } from "../auth/session-store.js";
-import { downloadMediaBatch } from "../downloader/media-downloader.js";
-import { createMediaScraper, type MediaScraper } from "../scraper/media-scraper.js";
-import { nowIso, sleep } from "../utils/time.js";
+import { createDownloadThrottle, type DownloadThrottle } from "../downloader/download-throttle.js";
+import {
+  loadDownloadedMediaCache,
+  type DownloadedMediaCacheState
+} from "../downloader/downloaded-media-cache.js";
+import {
+  downloadMediaBatch,
+  type DownloadMediaBatchInput,
+  type DownloadMediaBatchResult
+} from "../downloader/media-downloader.js";
+import { createMediaScraper } from "../scraper/engine-registry.js";
+import type {
+  EngineReport,
+  FetchUserMediaInput,
+  MediaScraper,
+  TimelineWalkEnd
+} from "../scraper/media-scraper.js";
+import { describeMediaSource, getMediaSourceDirectory } from "../scraper/media-source.js";
+import { readAccountLimit, type RateLimitWait } from "../scraper/rate-limiter.js";
+import { validateFilenameTemplate } from "../utils/path.js";
+import { nowIso, parseDateBound, sleep } from "../utils/time.js";
+import {
+  parseTweetReference,
+  pickNewestTweetId,
+  pickOldestTweetId,
+  tweetIdFromDate
+} from "../utils/tweet-id.js";
+import {
+  canSwitchAccount,
+  closeAccountPool,
+  createAccountPool,
+  hasFallbackAccounts,
+  switchAccount,
+  type AccountPoolHandle,
+  type ActiveAccount,
+  type BatchJobAccount
+} from "./account-pool.js";
+import {
+  createJobJournal,
+  getJournalMediaStatus,
+  getJournalTarget,
+  getSourceTargetKey,
+  getTweetTargetKey,
+  getUserTargetKey,
+  loadJobJournal,
+  persistJobJournal,
+  recordJournalMedia,
+  recordTargetFetched,
+  recordTargetFinished,
+  recordUserProgress,
+  type JobJournalHandle
+} from "./job-journal.js";
+import {
+  addQueuedMedia,
+  createJobProgress,
+  pushJobEvent,
+  recordMediaBytes,
+  recordMediaSettled,
+  recordMediaStarted,
+  waitForJobEvent,
+  type JobProgressHandle
+} from "./job-progress.js";
+import {
+  getUserSyncState,
+  loadSyncState,
+  persistSyncState,
+  recordUserSync,
+  type SyncStateHandle
+} from "./sync-state.js";
 
 export interface BatchJobRunInput extends BatchJobInput {
   store: SessionStore;
   scraper?: MediaScraper;
+  // Accounts to switch to, in order, when the current one hits a rate limit
+  // or its session is rejected.
+  accounts?: BatchJobAccount[];
+  signal?: AbortSignal;
 }
 
 const DEFAULT_USER_RETRY_COUNT = 1;
 const DEFAULT_USER_DELAY_MS = 0;
+const DEFAULT_USER_CONCURRENCY = 1;
 const DEFAULT_REQUEST_DELAY_MS = 0;
+const TWEET_PHASE_TARGET_KEY = "tweets";
 
 function createEvent(
   type: JobEvent["type"],
   message: string,
-  extras?: Pick<JobEvent, "username" | "progress">
+  extras?: Pick<JobEvent, "jobId" | "username" | "progress" | "result" | "engine">
 ): JobEvent {
   return {
     type,
@@ -32,6 +105,67 @@ function createEvent(
   };
 }
 
+interface EngineTracker {
+  // Engine that delivered the target most recently.
+  served?: string;
+  onEngine: (report: EngineReport) => void;
+}
+
+// Engine fallbacks happen inside a fetch the job is waiting on, so they are
+// raised through the progress handle like rate limit waits.
+function createEngineTracker(
+  progress: JobProgressHandle,
+  target: string,
+  username?: string
+): EngineTracker {
+  const tracker: EngineTracker = {
+    onEngine: (report) => {
+      if (report.type === "served") {
+        tracker.served = report.engine;
+        return;
+      }
+
+      pushJobEvent(
+        progress,
+        createEvent(
+          "warning",
+          `${target}: engine ${report.engine} failed, falling back to ${report.next}: ${report.error}`,
+          { username }
+        )
+      );
+    }
+  };
+  return tracker;
+}
+
+interface TweetIdRange {
+  sinceTweetId?: string;
+  untilTweetId?: string;
+}
+
+// Converts the date options into tweet ID bounds: the lower one exclusive
+// (as sinceTweetId expects), the upper one exclusive of the `until` instant.
+function resolveDateRange(input: BatchJobInput): TweetIdRange {
+  const since = input.since ? parseDateBound(input.since) : undefined;
+  const until = input.until ? parseDateBound(input.until) : undefined;
+
+  if (since && until && since.getTime() >= until.getTime()) {
+    throw new Error(`since (${input.since}) must be earlier than until (${input.until}).`);
+  }
+
+  const range: TweetIdRange = {};
+  if (since) {
+    const first = BigInt(tweetIdFromDate(since));
+    range.sinceTweetId = first > 0n ? (first - 1n).toString() : undefined;
+  }
+
+  if (until) {
+    range.untilTweetId = tweetIdFromDate(until);
+  }
+
+  return range;
+}
+
 function buildAnonymousSession(): SessionData {
   return {
     cookies: [],
@@ -40,9 +174,630 @@ function buildAnonymousSession(): SessionData {
   };
 }
 
+export interface ResumeBatchJobInput {
+  store: SessionStore;
+  scraper?: MediaScraper;
+  accounts?: BatchJobAccount[];
+  outputDir: string;
+  jobId: string;
+  signal?: AbortSignal;
+}
+
+interface JournaledDownloadInput extends DownloadMediaBatchInput {
+  journal: JobJournalHandle;
+  progress: JobProgressHandle;
+}
+
+function toJournalInput(input: BatchJobRunInput): BatchJobInput {
+  const { store: _store, scraper: _scraper, accounts: _accounts, signal: _signal, ...rest } = input;
+  return rest;
+}
+
+function createEmptyResult(input: BatchJobInput): JobResult {
+  return {
+    totalUsers: input.users.length,
+    succeededUsers: 0,
+    failedUsers: 0,
+    totalTweets: input.tweets?.length ?? 0,
+    succeededTweets: 0,
+    failedTweets: 0,
+    totalSources: input.sources?.length ?? 0,
+    succeededSources: 0,
+    failedSources: 0,
+    totalMedia: 0,
+    downloaded: 0,
+    failed: 0,
+    skipped: 0,
+    failureDetails: []
+  };
+}
+
+function isTargetFinished(journal: JobJournalHandle, key: string): boolean {
+  const status = getJournalTarget(journal, key)?.status;
+  return status === "completed" || status === "failed";
+}
+
+// When the failure belongs to the account rather than the target, switches
+// to the next usable account and returns the warning to report; the caller
+// then retries without using up an attempt.
+async function switchAccountOnLimit(
+  accounts: AccountPoolHandle,
+  account: ActiveAccount,
+  error: unknown,
+  target: string
+): Promise<string | undefined> {
+  const limit = readAccountLimit(error);
+  if (!limit) {
+    return undefined;
+  }
+
+  const next = await switchAccount(accounts, account, limit);
+  if (!next) {
+    return undefined;
+  }
+
+  const reason = limit.reason === "auth" ? "session rejected" : "rate limit reached";
+  return `Account ${account.profile}: ${reason}, switching to ${next.profile} for ${target}.`;
+}
+
+function describeRateLimitWait(wait: RateLimitWait): string {
+  const seconds = Math.ceil(wait.waitMs / 1000);
+  return `Rate limit reached for ${wait.endpoint}, waiting ${seconds}s until ${wait.resetAt}.`;
+}
+
+// Scraper calls can sit in a rate-limit wait for minutes and downloads report
+// every media, so queued events are relayed while the call is still pending
+// rather than after it.
+async function *relayJobEvents<T>(
+  progress: JobProgressHandle,
+  run: () => Promise<T>
+): AsyncGenerator<JobEvent, T, void> {
+  let settled = false;
+  const task = run();
+  const done = task.then(
+    () => {
+      settled = true;
+    },
+    () => {
+      settled = true;
+    }
+  );
+
+  while (true) {
+    yield* drainJobEvents(progress);
+    if (settled) {
+      return await task;
+    }
+
+    await Promise.race([done, waitForJobEvent(progress)]);
+  }
+}
+
+function *drainJobEvents(progress: JobProgressHandle): Generator<JobEvent, void, void> {
+  for (let event = progress.events.shift(); event; event = progress.events.shift()) {
+    yield event;
+  }
+}
+
+// Media an interrupted run already saved are counted from the journal rather
+// than handed to the downloader again, so they are not reported as skipped.
+async function downloadJournaledBatch(input: JournaledDownloadInput): Promise<DownloadMediaBatchResult> {
+  const { journal, progress, ...batchInput } = input;
+  const username = batchInput.username ?? "unknown";
+  const remaining: MediaItem[] = [];
+  let downloaded = 0;
+  let skipped = 0;
+
+  for (const item of batchInput.items) {
+    const status = getJournalMediaStatus(journal, item);
+    if (status === "downloaded") {
+      downloaded += 1;
+    } else if (status === "skipped") {
+      skipped += 1;
+    } else {
+      remaining.push(item);
+    }
+  }
+
+  addQueuedMedia(progress, batchInput.items.length, { downloaded, skipped });
+  const result = await downloadMediaBatch({
+    ...batchInput,
+    items: remaining,
+    onItemStarted: (item) => recordMediaStarted(progress, item, username),
+    onItemSettled: (item, status, detail) => {
+      recordJournalMedia(journal, item, status);
+      recordMediaSettled(progress, item, status, detail, username);
+    },
+    onBytesReceived: (bytes) => recordMediaBytes(progress, bytes)
+  });
+
+  return {
+    ...result,
+    total: batchInput.items.length,
+    downloaded: result.downloaded + downloaded,
+    skipped: result.skipped + skipped
+  };
+}
+
 export async function *runBatchJob(
   input: BatchJobRunInput
 ): AsyncGenerator<JobEvent, JobResult, void> {
+  if (input.filenameTemplate !== undefined) {
+    validateFilenameTemplate(input.filenameTemplate);
+  }
+
+  resolveDateRange(input);
+
+  const journal = createJobJournal(toJournalInput(input));
+  await persistJobJournal(journal);
+  return yield* executeBatchJob(input, journal);
+}
+
+// Continues a job from its journal: finished targets are not touched again,
+// fetched targets reuse their recorded media list, and the rest run as usual.
+export async function *resumeBatchJob(
+  input: ResumeBatchJobInput
+): AsyncGenerator<JobEvent, JobResult, void> {
+  const journal = await loadJobJournal(input.outputDir, input.jobId);
+  if (!journal) {
+    throw new Error(`Job ${input.jobId} was not found in ${input.outputDir}.`);
+  }
+
+  if (journal.status === "completed") {
+    throw new Error(`Job ${input.jobId} has already completed.`);
+  }
+
+  return yield* executeBatchJob(
+    {
+      ...journal.input,
+      store: input.store,
+      scraper: input.scraper,
+      accounts: input.accounts,
+      signal: input.signal
+    },
+    journal
+  );
+}
+
+function createEmptyTally(): DownloadMediaBatchResult {
+  return {
+    total: 0,
+    downloaded: 0,
+    failed: 0,
+    skipped: 0,
+    failureDetails: []
+  };
+}
+
+function addUserTally(
+  result: JobResult,
+  tally: DownloadMediaBatchResult,
+  userFailures: FailureDetail[]
+): void {
+  result.totalMedia += tally.total;
+  result.downloaded += tally.downloaded;
+  result.failed += tally.failed;
+  result.skipped += tally.skipped;
+  result.failureDetails.push(...userFailures, ...tally.failureDetails);
+}
+
+// Engines without paged output deliver the whole timeline as one page.
+async function *iterateUserMediaPages(
+  scraper: MediaScraper,
+  input: FetchUserMediaInput
+): AsyncGenerator<MediaItem[], void, void> {
+  if (typeof scraper.fetchUserMediaPages === "function") {
+    yield* scraper.fetchUserMediaPages(input);
+    return;
+  }
+
+  yield await scraper.fetchUserMedia(input);
+}
+
+// Keeps the next page request in flight while the caller downloads the
+// current one, so scraping and downloading overlap without buffering more
+// than one page ahead.
+async function *prefetchPages(
+  pages: AsyncIterable<MediaItem[]>
+): AsyncGenerator<MediaItem[], void, void> {
+  const iterator = pages[Symbol.asyncIterator]();
+  const request = (): Promise<IteratorResult<MediaItem[]>> => {
+    const next = iterator.next();
+    // Rethrown when awaited below; until then it must not count as unhandled.
+    next.catch(() => undefined);
+    return next;
+  };
+
+  let next = request();
+  try {
+    while (true) {
+      const current = await next;
+      if (current.done) {
+        return;
+      }
+
+      next = request();
+      yield current.value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+interface UserTaskContext {
+  input: BatchJobRunInput;
+  journal: JobJournalHandle;
+  accounts: AccountPoolHandle;
+  result: JobResult;
+  syncState: SyncStateHandle;
+  dateRange: TweetIdRange;
+  throttle: DownloadThrottle;
+  cache: DownloadedMediaCacheState;
+  progress: JobProgressHandle;
+  userRetryCount: number;
+  userDelayMs: number;
+  perRequestDelayMs: number;
+}
+
+type UserTaskOutcome = "finished" | "cancelled";
+
+async function *processUser(
+  context: UserTaskContext,
+  usernameRaw: string
+): AsyncGenerator<JobEvent, UserTaskOutcome, void> {
+  const { input, journal, accounts, result, syncState, dateRange, userRetryCount } = context;
+  const signal = input.signal;
+  const username = usernameRaw.replace(/^@/, "").trim();
+  const targetKey = getUserTargetKey(username);
+  if (isTargetFinished(journal, targetKey)) {
+    return "finished";
+  }
+
+  if (signal?.aborted) {
+    return "cancelled";
+  }
+
+  if (!username) {
+    result.failedUsers += 1;
+    recordTargetFinished(journal, targetKey, "failed", result);
+    yield createEvent("warning", "Skipped empty username entry.");
+    return "finished";
+  }
+
+  const syncedTweetId = input.sinceLast
+    ? getUserSyncState(syncState, username)?.newestTweetId
+    : undefined;
+  const sinceTweetId = pickNewestTweetId([syncedTweetId, dateRange.sinceTweetId]);
+  const sincePart = syncedTweetId ? ` (since tweet ${syncedTweetId})` : "";
+  const rangePart =
+    input.since || input.until
+      ? ` (date range ${input.since ?? "start"} to ${input.until ?? "now"})`
+      : "";
+  yield createEvent("user_started", `Processing @${username}${sincePart}${rangePart}`, {
+    username
+  });
+
+  // Other users may snapshot the shared result into the journal at any time,
+  // so this user's numbers are only added once it settles. Each attempt
+  // recounts from the journaled progress; media saved past it by an earlier
+  // attempt are counted from the journal instead of being downloaded again.
+  const retryFailures: FailureDetail[] = [];
+  for (let attempt = 1; attempt <= userRetryCount + 1; attempt += 1) {
+    const tally = createEmptyTally();
+    const account = accounts.current;
+    const engines = createEngineTracker(context.progress, `@${username}`, username);
+    try {
+      // An interrupted user continues below the oldest tweet it had walked,
+      // with the media found above it already counted.
+      const progress = getJournalTarget(journal, targetKey)?.progress;
+      if (progress) {
+        tally.total = progress.total;
+        tally.downloaded = progress.downloaded;
+        tally.skipped = progress.skipped;
+      }
+
+      const resumedTweets = progress?.tweets ?? 0;
+      let newestTweetId = progress?.newestTweetId;
+      let walkedTweets = resumedTweets;
+      let oldestWalkedTweetId = progress?.beforeTweetId;
+      let walkedPages = 0;
+      // Engines that do not report their pages leave no position to record.
+      let recordedPages: number | undefined = 0;
+      let timelineEnd: TimelineWalkEnd | undefined;
+      const maxTweets =
+        input.maxTweetsPerUser === undefined ? undefined : input.maxTweetsPerUser - resumedTweets;
+      const pages =
+        maxTweets !== undefined && maxTweets <= 0
+          ? []
+          : prefetchPages(
+              iterateUserMediaPages(account.scraper, {
+                username,
+                maxTweets,
+                mediaKinds: input.mediaKinds,
+                sinceTweetId,
+                untilTweetId: pickOldestTweetId([dateRange.untilTweetId, progress?.beforeTweetId]),
+                include: input.include,
+                signal,
+                failOnAccountLimit: canSwitchAccount(accounts),
+                onEngine: (report) => {
+                  engines.onEngine(report);
+                  // The next engine walks the timeline again from the top, so
+                  // only what it reports counts as covered from here on.
+                  if (report.type === "fallback") {
+                    walkedTweets = resumedTweets;
+                    oldestWalkedTweetId = progress?.beforeTweetId;
+                  }
+                },
+                onTimelinePage: (walked) => {
+                  newestTweetId = pickNewestTweetId([newestTweetId, ...walked.tweetIds]);
+                  oldestWalkedTweetId = pickOldestTweetId([oldestWalkedTweetId, ...walked.tweetIds]);
+                  walkedTweets += walked.tweetIds.length;
+                  walkedPages += 1;
+                },
+                onTimelineEnd: (end) => {
+                  timelineEnd = end;
+                },
+                onWarning: (message) => {
+                  pushJobEvent(context.progress, createEvent("warning", `@${username}: ${message}`, { username }));
+                },
+                onRateLimitWait: (wait) => {
+                  pushJobEvent(
+                    context.progress,
+                    createEvent("warning", `@${username}: ${describeRateLimitWait(wait)}`, { username })
+                  );
+                }
+              })
+            );
+
+      let pageNumber = 0;
+      for await (const page of pages) {
+        // A page's report comes just before the page and the next request is
+        // still in flight here, so every tweet reported so far is covered
+        // once this page is downloaded.
+        const coveredTweets = walkedTweets;
+        const coveredBeforeTweetId = oldestWalkedTweetId;
+        const coveredPages = walkedPages;
+        pageNumber += 1;
+        tally.total += page.length;
+        yield createEvent(
+          "media_found",
+          `Found ${page.length} media item(s) on page ${pageNumber}.`,
+          { username }
+        );
+
+        const downloaded = await downloadJournaledBatch({
+          journal,
+          progress: context.progress,
+          items: page,
+          outputDir: input.outputDir,
+          concurrency: input.concurrency,
+          retryCount: input.retryCount,
+          username,
+          perRequestDelayMs: context.perRequestDelayMs,
+          throttle: context.throttle,
+          cache: context.cache,
+          filenameTemplate: input.filenameTemplate,
+          writeMetadata: input.writeMetadata,
+          embedMetadata: input.embedMetadata,
+          signal
+        });
+
+        tally.downloaded += downloaded.downloaded;
+        tally.failed += downloaded.failed;
+        tally.skipped += downloaded.skipped;
+        tally.failureDetails.push(...downloaded.failureDetails);
+        if (signal?.aborted) {
+          break;
+        }
+
+        // After a failed media the position stays put, so resuming fetches
+        // that page again and retries it.
+        if (coveredPages === recordedPages) {
+          recordedPages = undefined;
+        }
+
+        if (tally.failed === 0 && recordedPages !== undefined && coveredBeforeTweetId) {
+          recordedPages = coveredPages;
+          recordUserProgress(journal, targetKey, {
+            beforeTweetId: coveredBeforeTweetId,
+            newestTweetId,
+            tweets: coveredTweets,
+            total: tally.total,
+            downloaded: tally.downloaded,
+            skipped: tally.skipped
+          });
+        }
+
+        yield createEvent("download_progress", `Page ${pageNumber} downloaded.`, {
+          username,
+          progress: {
+            total: tally.total,
+            downloaded: tally.downloaded,
+            failed: tally.failed,
+            skipped: tally.skipped
+          }
+        });
+      }
+
+      addUserTally(result, tally, retryFailures);
+      if (signal?.aborted) {
+        return "cancelled";
+      }
+
+      result.succeededUsers += 1;
+      if (hasFallbackAccounts(accounts)) {
+        result.userAccounts ??= {};
+        result.userAccounts[username] = account.profile;
+      }
+      if (engines.served) {
+        result.userEngines ??= {};
+        result.userEngines[username] = engines.served;
+      }
+
+      // The cursor claims every tweet above it was read, so it only moves when
+      // this --since-last run walked from the newest tweet down to the old
+      // cursor (or the end of the timeline) and every media downloaded.
+      const walkedToCursor =
+        input.sinceLast === true &&
+        sinceTweetId === syncedTweetId &&
+        !dateRange.untilTweetId &&
+        timelineEnd === "complete";
+      recordUserSync(syncState, username, [newestTweetId], walkedToCursor && tally.failed === 0);
+      await persistSyncState(syncState);
+      recordTargetFinished(journal, targetKey, "completed", result);
+
+      const enginePart = engines.served ? ` via ${engines.served}` : "";
+      yield createEvent(
+        "user_finished",
+        `Finished @${username}${enginePart}: ${tally.total} media item(s) in ${pageNumber} page(s).`,
+        { username, engine: engines.served }
+      );
+      break;
+    } catch (error) {
+      if (signal?.aborted) {
+        addUserTally(result, tally, retryFailures);
+        return "cancelled";
+      }
+
+      const switched = await switchAccountOnLimit(accounts, account, error, `@${username}`);
+      if (switched) {
+        yield createEvent("warning", switched, { username });
+        // Switching accounts does not use up a retry.
+        attempt -= 1;
+        continue;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const failureDetail: FailureDetail = {
+        scope: "user",
+        username,
+        message,
+        attempts: attempt,
+        timestamp: nowIso()
+      };
+
+      if (attempt <= userRetryCount) {
+        retryFailures.push(failureDetail);
+        yield createEvent(
+          "warning",
+          `@${username} attempt ${attempt}/${userRetryCount + 1} failed, retrying: ${message}`,
+          { username }
+        );
+
+        const retryBackoffMs = Math.max(500, 500 * Math.pow(2, attempt - 1));
+        await sleep(retryBackoffMs, signal);
+        continue;
+      }
+
+      // Pages downloaded before the failure are real files, so they count.
+      addUserTally(result, tally, [...retryFailures, failureDetail]);
+      result.failedUsers += 1;
+      recordTargetFinished(journal, targetKey, "failed", result);
+      yield createEvent("error", `@${username} failed: ${message}`, { username });
+    }
+  }
+
+  if (context.userDelayMs > 0) {
+    await sleep(context.userDelayMs, signal);
+  }
+
+  return "finished";
+}
+
+interface UserTaskStep {
+  stream: AsyncGenerator<JobEvent, UserTaskOutcome, void>;
+  step: IteratorResult<JobEvent, UserTaskOutcome>;
+}
+
+// Runs up to `userConcurrency` users at once and interleaves their events as
+// they arrive; each user's own events keep their order and carry its
+// username. Media and rate-limit events raised while the users are waiting are
+// relayed here once for the whole phase. Returns true if any user stopped
+// because the job was cancelled.
+async function *runUserTasks(
+  context: UserTaskContext,
+  usernames: string[],
+  userConcurrency: number
+): AsyncGenerator<JobEvent, boolean, void> {
+  const queue = [...usernames];
+  const pending = new Map<AsyncGenerator<JobEvent, UserTaskOutcome, void>, Promise<UserTaskStep>>();
+  const advance = (stream: AsyncGenerator<JobEvent, UserTaskOutcome, void>): void => {
+    pending.set(
+      stream,
+      stream.next().then((step) => ({ stream, step }))
+    );
+  };
+  const fill = (): void => {
+    while (pending.size < userConcurrency && queue.length > 0) {
+      const usernameRaw = queue.shift();
+      if (usernameRaw !== undefined) {
+        advance(processUser(context, usernameRaw));
+      }
+    }
+  };
+
+  let cancelled = false;
+  try {
+    fill();
+    while (pending.size > 0) {
+      const settled = await Promise.race([
+        ...pending.values(),
+        waitForJobEvent(context.progress).then(() => null)
+      ]);
+      // Drained first so a user's media events come before its next step.
+      yield* drainJobEvents(context.progress);
+      if (!settled) {
+        continue;
+      }
+
+      if (settled.step.done) {
+        pending.delete(settled.stream);
+        cancelled ||= settled.step.value === "cancelled";
+        fill();
+        continue;
+      }
+
+      advance(settled.stream);
+      yield settled.step.value;
+    }
+  } finally {
+    for (const stream of pending.keys()) {
+      await stream.return("cancelled");
+    }
+  }
+
+  return cancelled;
+}
+
+// Cancellation keeps the journal in the running state, so a cancelled job can
+// be resumed like an interrupted one.
+function *finishCancelledJob(
+  result: JobResult,
+  progress: JobProgressHandle
+): Generator<JobEvent, JobResult, void> {
+  yield* drainJobEvents(progress);
+  result.cancelled = true;
+  yield createEvent("job_cancelled", `Batch ${result.jobId} cancelled.`, {
+    jobId: result.jobId,
+    progress: {
+      total: result.totalMedia,
+      downloaded: result.downloaded,
+      failed: result.failed,
+      skipped: result.skipped
+    },
+    result: structuredClone(result)
+  });
+  return result;
+}
+
+async function *executeBatchJob(
+  input: BatchJobRunInput,
+  journal: JobJournalHandle
+): AsyncGenerator<JobEvent, JobResult, void> {
+  const dateRange = resolveDateRange(input);
+  const jobId = journal.jobId;
+  const signal = input.signal;
+
   const session = await input.store.load();
   const activeSession = session && session.cookies.length > 0 ? session : buildAnonymousSession();
   const scraper =
@@ -51,67 +806,325 @@ export async function *runBatchJob(
       engine: input.engine
     });
   await scraper.initialize(activeSession);
+  const accounts = createAccountPool({ store: input.store, scraper }, input.accounts ?? [], input.engine);
+
+  const progress = createJobProgress();
 
   try {
-    const result: JobResult = {
-      totalUsers: input.users.length,
-      succeededUsers: 0,
-      failedUsers: 0,
-      totalMedia: 0,
-      downloaded: 0,
-      failed: 0,
-      skipped: 0,
-      failureDetails: []
-    };
+    const resuming = journal.result !== undefined;
+    const result: JobResult = journal.result
+      ? structuredClone(journal.result)
+      : createEmptyResult(input);
+    result.jobId = jobId;
 
     const userRetryCount = Math.max(0, input.userRetryCount ?? DEFAULT_USER_RETRY_COUNT);
     const userDelayMs = Math.max(0, input.userDelayMs ?? DEFAULT_USER_DELAY_MS);
     const perRequestDelayMs = Math.max(0, input.perRequestDelayMs ?? DEFAULT_REQUEST_DELAY_MS);
+    const throttle = createDownloadThrottle({
+      maxBytesPerSecond: input.maxBytesPerSecond,
+      hostConcurrency: input.hostConcurrency,
+      concurrency: input.concurrency
+    });
+    const syncState = await loadSyncState(input.outputDir);
+    const cache = await loadDownloadedMediaCache(input.outputDir);
 
-    yield createEvent("job_started", `Batch started for ${input.users.length} user(s).`);
+    const tweetCount = input.tweets?.length ?? 0;
+    const sourceCount = input.sources?.length ?? 0;
+    const tweetPart = tweetCount > 0 ? ` and ${tweetCount} tweet(s)` : "";
+    const sourcePart = sourceCount > 0 ? ` and ${sourceCount} source(s)` : "";
+    const resumePart = resuming ? " (resumed)" : "";
+    yield createEvent(
+      "job_started",
+      `Batch ${jobId} started for ${input.users.length} user(s)${tweetPart}${sourcePart}${resumePart}.`,
+      { jobId }
+    );
 
-    for (const usernameRaw of input.users) {
-      const username = usernameRaw.replace(/^@/, "").trim();
+    const userConcurrency = Math.max(1, input.userConcurrency ?? DEFAULT_USER_CONCURRENCY);
+    const usersCancelled = yield* runUserTasks(
+      {
+        input,
+        journal,
+        accounts,
+        result,
+        syncState,
+        dateRange,
+        throttle,
+        cache,
+        progress,
+        userRetryCount,
+        userDelayMs,
+        perRequestDelayMs
+      },
+      input.users,
+      userConcurrency
+    );
+    if (usersCancelled) {
+      return yield* finishCancelledJob(result, progress);
+    }
 
-      if (!username) {
-        result.failedUsers += 1;
-        yield createEvent("warning", "Skipped empty username entry.");
-        continue;
-      }
+    // Tweet targets are fetched one by one but downloaded together, so the
+    // whole phase is the unit that finishes; individual tweets only keep their
+    // fetched media so a resumed run does not request them again.
+    if (tweetCount > 0 && !isTargetFinished(journal, TWEET_PHASE_TARGET_KEY)) {
+      const tweetItems: MediaItem[] = [];
+      const seenTweetIds = new Set<string>();
 
-      yield createEvent("user_started", `Processing @${username}`, { username });
+      for (const tweetRaw of input.tweets ?? []) {
+        if (signal?.aborted) {
+          return yield* finishCancelledJob(result, progress);
+        }
 
-      let completed = false;
-      for (let attempt = 1; attempt <= userRetryCount + 1; attempt += 1) {
-        try {
-          const mediaItems = await scraper.fetchUserMedia({
-            username,
-            maxTweets: input.maxTweetsPerUser,
-            mediaKinds: input.mediaKinds
+        const tweetId = parseTweetReference(tweetRaw);
+        if (!tweetId) {
+          result.failedTweets += 1;
+          result.failureDetails.push({
+            scope: "tweet",
+            username: "unknown",
+            message: `Invalid tweet reference: ${tweetRaw}`,
+            timestamp: nowIso()
           });
+          yield createEvent("warning", `Skipped invalid tweet reference: ${tweetRaw}`);
+          continue;
+        }
 
-          result.totalMedia += mediaItems.length;
-          yield createEvent("media_found", `Found ${mediaItems.length} media item(s).`, {
-            username
-          });
+        if (seenTweetIds.has(tweetId)) {
+          result.succeededTweets += 1;
+          continue;
+        }
+        seenTweetIds.add(tweetId);
+
+        const journaled = getJournalTarget(journal, getTweetTargetKey(tweetId));
+        if (journaled?.status === "fetched" && journaled.items) {
+          tweetItems.push(...journaled.items);
+          result.succeededTweets += 1;
+          continue;
+        }
+
+        for (let attempt = 1; attempt <= userRetryCount + 1; attempt += 1) {
+          const account = accounts.current;
+          const { scraper: accountScraper } = account;
+          if (typeof accountScraper.fetchTweetMedia !== "function") {
+            result.failedTweets += 1;
+            result.failureDetails.push({
+              scope: "tweet",
+              username: "unknown",
+              tweetId,
+              message: "Scraper engine does not support tweet targets.",
+              timestamp: nowIso()
+            });
+            yield createEvent("error", `Tweet ${tweetId} failed: scraper engine does not support tweet targets.`);
+            break;
+          }
+
+          const fetchTweetMedia = accountScraper.fetchTweetMedia.bind(accountScraper);
+          const engines = createEngineTracker(progress, `Tweet ${tweetId}`);
+          try {
+            const items = yield* relayJobEvents(progress, () =>
+              fetchTweetMedia({
+                tweetId,
+                mediaKinds: input.mediaKinds,
+                signal,
+                failOnAccountLimit: canSwitchAccount(accounts),
+                onEngine: engines.onEngine,
+                onRateLimitWait: (wait) => {
+                  pushJobEvent(progress, createEvent("warning", `Tweet ${tweetId}: ${describeRateLimitWait(wait)}`));
+                }
+              })
+            );
+
+            tweetItems.push(...items);
+            recordTargetFetched(journal, getTweetTargetKey(tweetId), items);
+            result.succeededTweets += 1;
+            yield createEvent("media_found", `Tweet ${tweetId}: found ${items.length} media item(s).`, {
+              username: items[0]?.username
+            });
+            break;
+          } catch (error) {
+            if (signal?.aborted) {
+              return yield* finishCancelledJob(result, progress);
+            }
+
+            const switched = await switchAccountOnLimit(accounts, account, error, `tweet ${tweetId}`);
+            if (switched) {
+              yield createEvent("warning", switched);
+              attempt -= 1;
+              continue;
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
+            result.failureDetails.push({
+              scope: "tweet",
+              username: "unknown",
+              tweetId,
+              message,
+              attempts: attempt,
+              timestamp: nowIso()
+            });
 
-          const downloaded = await downloadMediaBatch({
-            items: mediaItems,
+            if (attempt <= userRetryCount) {
+              yield createEvent(
+                "warning",
+                `Tweet ${tweetId} attempt ${attempt}/${userRetryCount + 1} failed, retrying: ${message}`
+              );
+
+              const retryBackoffMs = Math.max(500, 500 * Math.pow(2, attempt - 1));
+              await sleep(retryBackoffMs, signal);
+              continue;
+            }
+
+            result.failedTweets += 1;
+            yield createEvent("error", `Tweet ${tweetId} failed: ${message}`);
+          }
+        }
+      }
+
+      // Tweet targets are downloaded per author so files land in the same
+      // per-user folders as timeline downloads.
+      const tweetItemsByAuthor = new Map<string, MediaItem[]>();
+      for (const item of tweetItems) {
+        const list = tweetItemsByAuthor.get(item.username) ?? [];
+        list.push(item);
+        tweetItemsByAuthor.set(item.username, list);
+      }
+
+      for (const [username, items] of tweetItemsByAuthor) {
+        result.totalMedia += items.length;
+        const downloaded = yield* relayJobEvents(progress, () =>
+          downloadJournaledBatch({
+            journal,
+            progress,
+            items,
             outputDir: input.outputDir,
             concurrency: input.concurrency,
             retryCount: input.retryCount,
             username,
-            perRequestDelayMs
+            perRequestDelayMs,
+            throttle,
+            cache,
+            filenameTemplate: input.filenameTemplate,
+            writeMetadata: input.writeMetadata,
+            embedMetadata: input.embedMetadata,
+            signal
+          })
+        );
+
+        result.downloaded += downloaded.downloaded;
+        result.failed += downloaded.failed;
+        result.skipped += downloaded.skipped;
+        result.failureDetails.push(...downloaded.failureDetails);
+        if (signal?.aborted) {
+          return yield* finishCancelledJob(result, progress);
+        }
+
+        yield createEvent("download_progress", "Tweet download summary recorded.", {
+          username,
+          progress: {
+            total: downloaded.total,
+            downloaded: downloaded.downloaded,
+            failed: downloaded.failed,
+            skipped: downloaded.skipped
+          }
+        });
+      }
+
+      for (const tweetId of seenTweetIds) {
+        journal.targets.delete(getTweetTargetKey(tweetId));
+      }
+      recordTargetFinished(journal, TWEET_PHASE_TARGET_KEY, "completed", result);
+    }
+
+    for (const source of input.sources ?? []) {
+      const label = describeMediaSource(source);
+      const targetKey = getSourceTargetKey(label);
+      if (isTargetFinished(journal, targetKey)) {
+        continue;
+      }
+
+      if (signal?.aborted) {
+        return yield* finishCancelledJob(result, progress);
+      }
+
+      yield createEvent("user_started", `Processing ${label}`);
+
+      for (let attempt = 1; attempt <= userRetryCount + 1; attempt += 1) {
+        const account = accounts.current;
+        const { scraper: accountScraper } = account;
+        if (typeof accountScraper.fetchSourceMedia !== "function") {
+          result.failedSources += 1;
+          result.failureDetails.push({
+            scope: "source",
+            username: "unknown",
+            source: label,
+            message: "Scraper engine does not support timeline sources.",
+            timestamp: nowIso()
           });
+          recordTargetFinished(journal, targetKey, "failed", result);
+          yield createEvent("error", `Source ${label} failed: scraper engine does not support timeline sources.`);
+          break;
+        }
+
+        const fetchSourceMedia = accountScraper.fetchSourceMedia.bind(accountScraper);
+        const engines = createEngineTracker(progress, label);
+        try {
+          const journaled = getJournalTarget(journal, targetKey);
+          const mediaItems =
+            journaled?.status === "fetched" && journaled.items
+              ? journaled.items
+              : yield* relayJobEvents(progress, () =>
+                  fetchSourceMedia({
+                    source,
+                    maxTweets: input.maxTweetsPerUser,
+                    mediaKinds: input.mediaKinds,
+                    signal,
+                    failOnAccountLimit: canSwitchAccount(accounts),
+                    onEngine: engines.onEngine,
+                    onWarning: (message) => {
+                      pushJobEvent(progress, createEvent("warning", `${label}: ${message}`));
+                    },
+                    onRateLimitWait: (wait) => {
+                      pushJobEvent(progress, createEvent("warning", `${label}: ${describeRateLimitWait(wait)}`));
+                    }
+                  })
+                );
+          recordTargetFetched(journal, targetKey, mediaItems);
+
+          result.totalMedia += mediaItems.length;
+          yield createEvent("media_found", `${label}: found ${mediaItems.length} media item(s).`);
+
+          // Search results come from many authors, so they share one folder
+          // per query instead of being spread across author folders.
+          const downloaded = yield* relayJobEvents(progress, () =>
+            downloadJournaledBatch({
+              journal,
+              progress,
+              items: mediaItems,
+              outputDir: input.outputDir,
+              concurrency: input.concurrency,
+              retryCount: input.retryCount,
+              username: label,
+              perRequestDelayMs,
+              throttle,
+              cache,
+              subdirectory: getMediaSourceDirectory(source),
+              filenameTemplate: input.filenameTemplate,
+              writeMetadata: input.writeMetadata,
+              embedMetadata: input.embedMetadata,
+              signal
+            })
+          );
 
           result.downloaded += downloaded.downloaded;
           result.failed += downloaded.failed;
           result.skipped += downloaded.skipped;
           result.failureDetails.push(...downloaded.failureDetails);
-          result.succeededUsers += 1;
+          if (signal?.aborted) {
+            return yield* finishCancelledJob(result, progress);
+          }
 
-          yield createEvent("download_progress", "Download summary recorded.", {
-            username,
+          result.succeededSources += 1;
+          recordTargetFinished(journal, targetKey, "completed", result);
+
+          yield createEvent("download_progress", "Source download summary recorded.", {
             progress: {
               total: downloaded.total,
               downloaded: downloaded.downloaded,
@@ -119,49 +1132,54 @@ export async function *runBatchJob(
               skipped: downloaded.skipped
             }
           });
-          yield createEvent("user_finished", `Finished @${username}`, { username });
-
-          completed = true;
+          yield createEvent("user_finished", `Finished ${label}`);
           break;
         } catch (error) {
+          if (signal?.aborted) {
+            return yield* finishCancelledJob(result, progress);
+          }
+
+          const switched = await switchAccountOnLimit(accounts, account, error, label);
+          if (switched) {
+            yield createEvent("warning", switched);
+            attempt -= 1;
+            continue;
+          }
+
           const message = error instanceof Error ? error.message : String(error);
-          const failureDetail: FailureDetail = {
-            scope: "user",
-            username,
+          result.failureDetails.push({
+            scope: "source",
+            username: "unknown",
+            source: label,
             message,
             attempts: attempt,
             timestamp: nowIso()
-          };
+          });
 
           if (attempt <= userRetryCount) {
-            result.failureDetails.push(failureDetail);
             yield createEvent(
               "warning",
-              `@${username} attempt ${attempt}/${userRetryCount + 1} failed, retrying: ${message}`,
-              { username }
+              `${label} attempt ${attempt}/${userRetryCount + 1} failed, retrying: ${message}`
             );
 
             const retryBackoffMs = Math.max(500, 500 * Math.pow(2, attempt - 1));
-            await sleep(retryBackoffMs);
+            await sleep(retryBackoffMs, signal);
             continue;
           }
 
-          result.failureDetails.push(failureDetail);
-          result.failedUsers += 1;
-          yield createEvent("error", `@${username} failed: ${message}`, { username });
+          result.failedSources += 1;
+          recordTargetFinished(journal, targetKey, "failed", result);
+          yield createEvent("error", `${label} failed: ${message}`);
         }
       }
-
-      if (userDelayMs > 0) {
-        await sleep(userDelayMs);
-      }
-
-      if (!completed) {
-        continue;
-      }
     }
 
-    yield createEvent("job_finished", "Batch finished.", {
+    yield* drainJobEvents(progress);
+    journal.status = "completed";
+    journal.result = structuredClone(result);
+
+    yield createEvent("job_finished", `Batch ${jobId} finished.`, {
+      jobId,
       progress: {
         total: result.totalMedia,
         downloaded: result.downloaded,
@@ -172,6 +1190,10 @@ export async function *runBatchJob(
 
     return result;
   } finally {
+    await closeAccountPool(accounts);
+    // Also reached when the consumer stops iterating early, which is how an
+    // interrupted run leaves a journal behind for `resume`.
+    await persistJobJournal(journal);
     if (typeof scraper.close === "function") {
       await scraper.close();
     }
@@ -179,9 +1201,50 @@ export async function *runBatchJob(
 }
 
 export function summarizeJobResult(result: JobResult): string {
-  return [
+  const lines = [
     `users(total/succeeded/failed): ${result.totalUsers}/${result.succeededUsers}/${result.failedUsers}`,
     `media(total/downloaded/failed/skipped): ${result.totalMedia}/${result.downloaded}/${result.failed}/${result.skipped}`,
     `failure-details: ${result.failureDetails.length}`
-  ].join("\n");
+  ];
+
+  if (result.totalTweets > 0) {
+    lines.splice(
+      1,
+      0,
+      `tweets(total/succeeded/failed): ${result.totalTweets}/${result.succeededTweets}/${result.failedTweets}`
+    );
+  }
+
+  if (result.totalSources > 0) {
+    lines.splice(
+      lines.length - 2,
+      0,
+      `sources(total/succeeded/failed): ${result.totalSources}/${result.succeededSources}/${result.failedSources}`
+    );
+  }
+
+  const servedBy = new Map<string, string[]>();
+  for (const [username, profile] of Object.entries(result.userAccounts ?? {})) {
+    servedBy.set(profile, [...(servedBy.get(profile) ?? []), `@${username}`]);
+  }
+  for (const [profile, usernames] of servedBy) {
+    lines.push(`account ${profile}: ${usernames.join(", ")}`);
+  }
+
+  // Only worth listing when the chain actually fell back for some users.
+  const engineUsers = new Map<string, string[]>();
+  for (const [username, engine] of Object.entries(result.userEngines ?? {})) {
+    engineUsers.set(engine, [...(engineUsers.get(engine) ?? []), `@${username}`]);
+  }
+  if (engineUsers.size > 1) {
+    for (const [engine, usernames] of engineUsers) {
+      lines.push(`engine ${engine}: ${usernames.join(", ")}`);
+    }
+  }
+
+  if (result.jobId) {
+    lines.unshift(`job: ${result.jobId}${result.cancelled ? " (cancelled)" : ""}`);
+  }
+
+  return lines.join("\n");
 }
@@ -0,0 +1,105 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { nowIso } from "../utils/time.js";
+import { pickNewestTweetId } from "../utils/tweet-id.js";
+
+export interface UserSyncState {
+  newestTweetId?: string;
+  lastRunAt: string;
+}
+
+interface SyncStateFile {
+  version: number;
+  updatedAt: string;
+  users: Record<string, UserSyncState>;
+}
+
+export interface SyncStateHandle {
+  path: string;
+  users: Map<string, UserSyncState>;
+  writing: Promise<void>;
+}
+
+const SYNC_STATE_VERSION = 1;
+const SYNC_STATE_FILE_NAME = "sync-state.json";
+
+function getSyncStatePath(outputDir: string): string {
+  return join(outputDir, ".twmd-cache", SYNC_STATE_FILE_NAME);
+}
+
+function toUserKey(username: string): string {
+  return username.replace(/^@/, "").trim().toLowerCase();
+}
+
+export async function loadSyncState(outputDir: string): Promise<SyncStateHandle> {
+  const path = getSyncStatePath(outputDir);
+  const users = new Map<string, UserSyncState>();
+
+  try {
+    const raw = await readFile(path, "utf8");
+    const parsed = JSON.parse(raw) as Partial<SyncStateFile>;
+    if (parsed.version !== SYNC_STATE_VERSION || !parsed.users || typeof parsed.users !== "object") {
+      return { path, users, writing: Promise.resolve() };
+    }
+
+    for (const [username, state] of Object.entries(parsed.users)) {
+      if (!state || typeof state.lastRunAt !== "string") {
+        continue;
+      }
+
+      users.set(toUserKey(username), {
+        newestTweetId: typeof state.newestTweetId === "string" ? state.newestTweetId : undefined,
+        lastRunAt: state.lastRunAt
+      });
+    }
+  } catch {
+  }
+
+  return { path, users, writing: Promise.resolve() };
+}
+
+export function getUserSyncState(handle: SyncStateHandle, username: string): UserSyncState | undefined {
+  return handle.users.get(toUserKey(username));
+}
+
+export function recordUserSync(
+  handle: SyncStateHandle,
+  username: string,
+  seenTweetIds: Iterable<string | undefined>,
+  advanceCursor: boolean
+): UserSyncState {
+  const key = toUserKey(username);
+  const previous = handle.users.get(key);
+  const newestTweetId = advanceCursor
+    ? pickNewestTweetId([previous?.newestTweetId, ...seenTweetIds])
+    : previous?.newestTweetId;
+
+  const next: UserSyncState = {
+    newestTweetId,
+    lastRunAt: nowIso()
+  };
+
+  handle.users.set(key, next);
+  return next;
+}
+
+export async function persistSyncState(handle: SyncStateHandle): Promise<void> {
+  const payload: SyncStateFile = {
+    version: SYNC_STATE_VERSION,
+    updatedAt: nowIso(),
+    users: Object.fromEntries(handle.users)
+  };
+
+  // Users finishing at the same time would otherwise race on the temp file.
+  handle.writing = handle.writing.then(async () => {
+    try {
+      await mkdir(dirname(handle.path), { recursive: true });
+      const tempPath = `${handle.path}.tmp`;
+      await writeFile(tempPath, JSON.stringify(payload, null, 2));
+      await rename(tempPath, handle.path);
+    } catch {
+    }
+  });
+
+  await handle.writing;
+}
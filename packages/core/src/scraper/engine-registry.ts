@@ -0,0 +1,368 @@
+import type { MediaItem, MediaSource, ScraperEngine, SessionData } from "@huangjz11/shared";
+import { GraphqlMediaScraper } from "./graphql-media-scraper.js";
+import {
+  PlaywrightMediaScraper,
+  type FetchSourceMediaInput,
+  type FetchTweetMediaInput,
+  type FetchUserMediaInput,
+  type MediaScraper
+} from "./media-scraper.js";
+import { readAccountLimit } from "./rate-limiter.js";
+
+export interface ScraperEngineCapabilities {
+  // Every engine fetches user timelines; these are the other targets.
+  tweets: boolean;
+  sources: Array<MediaSource["type"]>;
+  // "required" engines are left out of the chain when no one is logged in.
+  auth: "required" | "optional";
+}
+
+export interface ScraperEngineDefinition {
+  name: ScraperEngine;
+  description: string;
+  capabilities: ScraperEngineCapabilities;
+  create(): MediaScraper;
+}
+
+export interface CreateMediaScraperInput {
+  // One engine name, a comma separated chain, or the chain as a list.
+  engine?: ScraperEngine | ScraperEngine[];
+}
+
+interface ChainMember {
+  definition: ScraperEngineDefinition;
+  scraper?: MediaScraper;
+  // Engines are initialized on first use, so a browser engine at the end of
+  // the chain only starts when everything before it failed.
+  ready?: Promise<MediaScraper>;
+}
+
+export const DEFAULT_ENGINE_CHAIN: ScraperEngine[] = ["graphql", "v11"];
+
+const ENGINE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const engines = new Map<ScraperEngine, ScraperEngineDefinition>();
+
+export function registerScraperEngine(definition: ScraperEngineDefinition): void {
+  if (!ENGINE_NAME_PATTERN.test(definition.name)) {
+    throw new Error(`Invalid scraper engine name: ${definition.name}.`);
+  }
+
+  if (engines.has(definition.name)) {
+    throw new Error(`Scraper engine ${definition.name} is already registered.`);
+  }
+
+  engines.set(definition.name, definition);
+}
+
+export function getScraperEngine(name: ScraperEngine): ScraperEngineDefinition | undefined {
+  return engines.get(name);
+}
+
+export function listScraperEngines(): ScraperEngineDefinition[] {
+  return Array.from(engines.values());
+}
+
+function resolveEngineChain(
+  engine: ScraperEngine | ScraperEngine[] | undefined
+): ScraperEngineDefinition[] {
+  const names = (Array.isArray(engine) ? engine : (engine ?? "").split(","))
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+
+  return Array.from(new Set(names.length > 0 ? names : DEFAULT_ENGINE_CHAIN)).map((name) => {
+    const definition = engines.get(name);
+    if (!definition) {
+      throw new Error(
+        `Unknown scraper engine: ${name}. Registered engines: ${Array.from(engines.keys()).join(", ")}.`
+      );
+    }
+
+    return definition;
+  });
+}
+
+// Validates a chain and returns its engine names in order, without repeats.
+export function parseEngineChain(engine: ScraperEngine | ScraperEngine[] | undefined): ScraperEngine[] {
+  return resolveEngineChain(engine).map((definition) => definition.name);
+}
+
+function mediaKey(item: MediaItem): string {
+  return `${item.tweetId}:${item.kind}:${item.url}`;
+}
+
+function hasAuthCookie(session: SessionData): boolean {
+  return session.cookies.some((cookie) => cookie.trim().startsWith("auth_token="));
+}
+
+// Shared by every chain target: aborts and account limits end the chain,
+// anything else is recorded and reported as a fallback when an engine is left.
+function recordEngineFailure(
+  error: unknown,
+  members: ChainMember[],
+  index: number,
+  errors: string[],
+  input: { signal?: AbortSignal; onEngine?: FetchUserMediaInput["onEngine"] }
+): void {
+  input.signal?.throwIfAborted();
+  if (readAccountLimit(error)) {
+    throw error;
+  }
+
+  const name = members[index].definition.name;
+  const message = error instanceof Error ? error.message : String(error);
+  errors.push(`${name}: ${message}`);
+  const next = members[index + 1];
+  if (next) {
+    input.onEngine?.({ type: "fallback", engine: name, next: next.definition.name, error: message });
+  }
+}
+
+// Engines without paged output deliver the whole timeline as one page.
+async function *iterateEnginePages(
+  scraper: MediaScraper,
+  input: FetchUserMediaInput
+): AsyncGenerator<MediaItem[], void, void> {
+  if (typeof scraper.fetchUserMediaPages === "function") {
+    yield* scraper.fetchUserMediaPages(input);
+    return;
+  }
+
+  yield await scraper.fetchUserMedia(input);
+}
+
+// Tries the engines in order for every target. A failure moves on to the next
+// engine that supports the target, except for an account limit, which the
+// caller answers by switching accounts rather than engines.
+class EngineChainScraper implements MediaScraper {
+  private session?: SessionData;
+  private cookieListener?: (cookies: string[]) => void;
+  readonly fetchTweetMedia?: (input: FetchTweetMediaInput) => Promise<MediaItem[]>;
+  readonly fetchSourceMedia?: (input: FetchSourceMediaInput) => Promise<MediaItem[]>;
+
+  constructor(private readonly members: ChainMember[]) {
+    if (members.some((member) => member.definition.capabilities.tweets)) {
+      this.fetchTweetMedia = (input) =>
+        this.runChain(
+          (capabilities) => capabilities.tweets,
+          "tweet targets",
+          input,
+          (scraper) => this.callTweetMedia(scraper, input)
+        );
+    }
+
+    if (members.some((member) => member.definition.capabilities.sources.length > 0)) {
+      this.fetchSourceMedia = (input) =>
+        this.runChain(
+          (capabilities) => capabilities.sources.includes(input.source.type),
+          `${input.source.type} sources`,
+          input,
+          (scraper) => this.callSourceMedia(scraper, input)
+        );
+    }
+  }
+
+  private get names(): string {
+    return this.members.map((member) => member.definition.name).join(",");
+  }
+
+  async initialize(session: SessionData): Promise<void> {
+    this.session = session;
+    for (const member of this.members) {
+      member.ready = undefined;
+    }
+
+    if (this.usableMembers(() => true).length === 0) {
+      throw new Error(`Scraper engine ${this.names} requires a login session. Please login first.`);
+    }
+  }
+
+  onCookiesUpdated(listener: (cookies: string[]) => void): void {
+    this.cookieListener = listener;
+    for (const member of this.members) {
+      member.scraper?.onCookiesUpdated?.(listener);
+    }
+  }
+
+  private usableMembers(
+    supports: (capabilities: ScraperEngineCapabilities) => boolean
+  ): ChainMember[] {
+    const authenticated = this.session ? hasAuthCookie(this.session) : false;
+    return this.members.filter(
+      (member) =>
+        supports(member.definition.capabilities) &&
+        (authenticated || member.definition.capabilities.auth === "optional")
+    );
+  }
+
+  private async startScraper(member: ChainMember): Promise<MediaScraper> {
+    if (!this.session) {
+      throw new Error("scraper engine chain not initialized.");
+    }
+
+    const scraper = member.scraper ?? member.definition.create();
+    member.scraper = scraper;
+    if (this.cookieListener) {
+      scraper.onCookiesUpdated?.(this.cookieListener);
+    }
+    await scraper.initialize(this.session);
+    return scraper;
+  }
+
+  private async ensureScraper(member: ChainMember): Promise<MediaScraper> {
+    const ready = (member.ready ??= this.startScraper(member));
+    try {
+      return await ready;
+    } catch (error) {
+      // A failed start is tried again by the next target instead of sticking.
+      if (member.ready === ready) {
+        member.ready = undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async callTweetMedia(scraper: MediaScraper, input: FetchTweetMediaInput): Promise<MediaItem[]> {
+    if (typeof scraper.fetchTweetMedia !== "function") {
+      throw new Error("engine does not support tweet targets.");
+    }
+
+    return await scraper.fetchTweetMedia({ ...input, onEngine: undefined });
+  }
+
+  private async callSourceMedia(scraper: MediaScraper, input: FetchSourceMediaInput): Promise<MediaItem[]> {
+    if (typeof scraper.fetchSourceMedia !== "function") {
+      throw new Error("engine does not support timeline sources.");
+    }
+
+    return await scraper.fetchSourceMedia({ ...input, onEngine: undefined });
+  }
+
+  private async runChain<T>(
+    supports: (capabilities: ScraperEngineCapabilities) => boolean,
+    targetLabel: string,
+    input: { signal?: AbortSignal; onEngine?: FetchUserMediaInput["onEngine"] },
+    fetch: (scraper: MediaScraper) => Promise<T>
+  ): Promise<T> {
+    const members = this.usableMembers(supports);
+    if (members.length === 0) {
+      throw new Error(`No scraper engine in ${this.names} supports ${targetLabel}.`);
+    }
+
+    const errors: string[] = [];
+    for (const [index, member] of members.entries()) {
+      try {
+        const value = await fetch(await this.ensureScraper(member));
+        input.onEngine?.({ type: "served", engine: member.definition.name });
+        return value;
+      } catch (error) {
+        recordEngineFailure(error, members, index, errors, input);
+      }
+    }
+
+    throw new Error(`All scraper engines failed: ${errors.join(" | ")}`);
+  }
+
+  // If an engine fails part way through a timeline, the next one walks it
+  // again and only media not yet yielded come through.
+  async *fetchUserMediaPages(input: FetchUserMediaInput): AsyncGenerator<MediaItem[], void, void> {
+    const members = this.usableMembers(() => true);
+    const seen = new Set<string>();
+    const errors: string[] = [];
+
+    for (const [index, member] of members.entries()) {
+      const name = member.definition.name;
+      try {
+        const scraper = await this.ensureScraper(member);
+        let served = false;
+        for await (const page of iterateEnginePages(scraper, { ...input, onEngine: undefined })) {
+          if (!served) {
+            served = true;
+            input.onEngine?.({ type: "served", engine: name });
+          }
+
+          const fresh = page.filter((item) => {
+            const key = mediaKey(item);
+            if (seen.has(key)) {
+              return false;
+            }
+
+            seen.add(key);
+            return true;
+          });
+          if (fresh.length > 0) {
+            yield fresh;
+          }
+        }
+
+        if (!served) {
+          input.onEngine?.({ type: "served", engine: name });
+        }
+        return;
+      } catch (error) {
+        recordEngineFailure(error, members, index, errors, input);
+      }
+    }
+
+    throw new Error(`All scraper engines failed for @${input.username}: ${errors.join(" | ")}`);
+  }
+
+  async fetchUserMedia(input: FetchUserMediaInput): Promise<MediaItem[]> {
+    const items: MediaItem[] = [];
+    for await (const page of this.fetchUserMediaPages(input)) {
+      items.push(...page);
+    }
+
+    return items;
+  }
+
+  async close(): Promise<void> {
+    for (const member of this.members) {
+      const scraper = member.scraper;
+      member.scraper = undefined;
+      member.ready = undefined;
+      if (scraper && typeof scraper.close === "function") {
+        await scraper.close();
+      }
+    }
+  }
+}
+
+export function createMediaScraper(input: CreateMediaScraperInput = {}): MediaScraper {
+  return new EngineChainScraper(
+    resolveEngineChain(input.engine).map((definition) => ({ definition }))
+  );
+}
+
+registerScraperEngine({
+  name: "graphql",
+  description: "X web GraphQL API",
+  capabilities: {
+    tweets: true,
+    sources: ["search", "likes", "bookmarks", "list"],
+    auth: "required"
+  },
+  create: () => new GraphqlMediaScraper("graphql")
+});
+
+registerScraperEngine({
+  name: "v11",
+  description: "X REST API v1.1",
+  capabilities: {
+    tweets: true,
+    sources: [],
+    auth: "required"
+  },
+  create: () => new GraphqlMediaScraper("v11")
+});
+
+registerScraperEngine({
+  name: "playwright",
+  description: "headless browser reading profile pages",
+  capabilities: {
+    tweets: false,
+    sources: [],
+    auth: "optional"
+  },
+  create: () => new PlaywrightMediaScraper()
+});
@@ -1,5 +1,32 @@
-import type { MediaItem, MediaKind, SessionData } from "@huangjz11/shared";
-import type { FetchUserMediaInput, MediaScraper } from "./media-scraper.js";
+import type {
+  ContentInclusion,
+  MediaItem,
+  MediaKind,
+  MediaRelation,
+  MediaSource,
+  SessionData,
+  TweetMetrics
+} from "@huangjz11/shared";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { isTweetIdAfter, isTweetIdBefore } from "../utils/tweet-id.js";
+import {
+  acquireRateLimit,
+  createAccountLimitError,
+  readAccountLimit,
+  readRateLimitBudget,
+  recordRateLimit,
+  type RateLimitWaitListener,
+  type SessionHealth,
+  type SessionHealthStatus
+} from "./rate-limiter.js";
+import type {
+  FetchSourceMediaInput,
+  FetchTweetMediaInput,
+  FetchUserMediaInput,
+  MediaScraper,
+  TimelineWalkEnd
+} from "./media-scraper.js";
 
 interface GraphqlAuthCandidate {
   authToken: string;
@@ -22,8 +49,20 @@ interface CookieValueMap {
   [name: string]: string;
 }
 
+type GraphqlOperationName =
+  | "UserByScreenName"
+  | "UserMedia"
+  | "UserTweets"
+  | "UserTweetsAndReplies"
+  | "TweetDetail"
+  | "TweetResultByRestId"
+  | "SearchTimeline"
+  | "Likes"
+  | "Bookmarks"
+  | "ListLatestTweetsTimeline";
+
 interface GraphqlOperation {
-  name: "UserByScreenName" | "UserMedia" | "UserTweets";
+  name: GraphqlOperationName;
   queryId: string;
 }
 
@@ -56,7 +95,18 @@ interface GraphqlMediaItem {
   };
 }
 
-interface GraphqlLegacyTweet {
+interface TweetTextAndCounts {
+  full_text?: string;
+  text?: string;
+  lang?: string;
+  favorite_count?: number;
+  retweet_count?: number;
+  reply_count?: number;
+  quote_count?: number;
+  bookmark_count?: number;
+}
+
+interface GraphqlLegacyTweet extends TweetTextAndCounts {
   id_str?: string;
   created_at?: string;
   user_id_str?: string;
@@ -66,7 +116,40 @@ interface GraphqlLegacyTweet {
   extended_entities?: {
     media?: GraphqlMediaItem[];
   };
-  retweeted_status_result?: unknown;
+  retweeted_status_result?: {
+    result?: GraphqlTweetResult;
+  };
+  in_reply_to_status_id_str?: string;
+  in_reply_to_user_id_str?: string;
+}
+
+interface GraphqlTweetResult {
+  __typename?: string;
+  rest_id?: string;
+  legacy?: GraphqlLegacyTweet;
+  core?: {
+    user_results?: {
+      result?: {
+        rest_id?: string;
+        core?: {
+          screen_name?: string;
+        };
+        legacy?: {
+          screen_name?: string;
+        };
+      };
+    };
+  };
+  tweet?: GraphqlTweetResult;
+  quoted_status_result?: {
+    result?: GraphqlTweetResult;
+  };
+}
+
+interface GraphqlTimelineInstruction {
+  type?: string;
+  entries?: GraphqlTimelineEntry[];
+  entry?: GraphqlTimelineEntry;
 }
 
 interface GraphqlTimelineEntry {
@@ -82,10 +165,58 @@ interface GraphqlUserMediaResponse {
         rest_id?: string;
         timeline_v2?: {
           timeline?: {
-            instructions?: Array<{
-              type?: string;
-              entries?: GraphqlTimelineEntry[];
-            }>;
+            instructions?: GraphqlTimelineInstruction[];
+          };
+        };
+      };
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+interface GraphqlTweetDetailResponse {
+  data?: {
+    threaded_conversation_with_injections_v2?: {
+      instructions?: GraphqlTimelineInstruction[];
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+interface GraphqlTweetResultByRestIdResponse {
+  data?: {
+    tweetResult?: {
+      result?: GraphqlTweetResult;
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+interface GraphqlSearchTimelineResponse {
+  data?: {
+    search_by_raw_query?: {
+      search_timeline?: {
+        timeline?: {
+          instructions?: GraphqlTimelineInstruction[];
+        };
+      };
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+interface GraphqlLikesResponse {
+  data?: {
+    user?: {
+      result?: {
+        timeline?: {
+          timeline?: {
+            instructions?: GraphqlTimelineInstruction[];
+          };
+        };
+        timeline_v2?: {
+          timeline?: {
+            instructions?: GraphqlTimelineInstruction[];
           };
         };
       };
@@ -94,13 +225,54 @@ interface GraphqlUserMediaResponse {
   errors?: Array<{ message?: string }>;
 }
 
-interface V11Status {
+interface GraphqlBookmarksResponse {
+  data?: {
+    bookmark_timeline_v2?: {
+      timeline?: {
+        instructions?: GraphqlTimelineInstruction[];
+      };
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+interface GraphqlListTimelineResponse {
+  data?: {
+    list?: {
+      tweets_timeline?: {
+        timeline?: {
+          instructions?: GraphqlTimelineInstruction[];
+        };
+      };
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+interface ResolvedTweet {
+  tweet: GraphqlLegacyTweet;
+  authorId?: string;
+  authorScreenName?: string;
+  retweeted?: ResolvedTweet;
+  quoted?: ResolvedTweet;
+}
+
+interface GraphqlTimelinePage {
+  tweets: ResolvedTweet[];
+  nextCursor?: string;
+}
+
+interface V11Status extends TweetTextAndCounts {
   id_str?: string;
   created_at?: string;
   user?: {
+    id_str?: string;
     screen_name?: string;
   };
-  retweeted_status?: unknown;
+  retweeted_status?: V11Status;
+  quoted_status?: V11Status;
+  in_reply_to_status_id_str?: string | null;
+  in_reply_to_user_id_str?: string | null;
   entities?: {
     media?: GraphqlMediaItem[];
   };
@@ -118,16 +290,66 @@ const API_V11_BASES = [
 
 const GRAPHQL_BASES = ["https://x.com/i/api/graphql/", "https://twitter.com/i/api/graphql/"];
 
+const MAX_RATE_LIMIT_ATTEMPTS = 3;
+
+// Pages read per timeline before giving up, as a guard against cursors that
+// never run out.
+const MAX_TIMELINE_PAGES = 30;
+const TIMELINE_PAGE_LIMIT_WARNING = `Stopped after ${MAX_TIMELINE_PAGES} timeline pages; older tweets were not read.`;
+
 const WEB_BEARER_TOKEN =
   process.env.TWMD_WEB_BEARER_TOKEN ??
   "AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA";
 
+const GRAPHQL_OPERATION_NAMES: GraphqlOperationName[] = [
+  "UserByScreenName",
+  "UserMedia",
+  "UserTweets",
+  "UserTweetsAndReplies",
+  "TweetDetail",
+  "TweetResultByRestId",
+  "SearchTimeline",
+  "Likes",
+  "Bookmarks",
+  "ListLatestTweetsTimeline"
+];
+
 const DEFAULT_GRAPHQL_OPERATIONS: GraphqlOperation[] = [
   { name: "UserByScreenName", queryId: "G3KGOASz96M-Qu0nwmGXNg" },
   { name: "UserMedia", queryId: "YqiE3JL6K6dcjVxRk0h4RA" },
-  { name: "UserTweets", queryId: "HuTx74BxAnezK1gWvYY7zg" }
+  { name: "UserTweets", queryId: "HuTx74BxAnezK1gWvYY7zg" },
+  { name: "UserTweetsAndReplies", queryId: "bt4TKuFz4T7Ckk-VvQVSow" },
+  { name: "TweetDetail", queryId: "nBS-WpgA6ZG0CyNHD517JQ" },
+  { name: "TweetResultByRestId", queryId: "Xl5pC_lBk_gcO2ItU39DQw" },
+  { name: "SearchTimeline", queryId: "nK1dw4oV3k4w5TdtcAdSww" },
+  { name: "Likes", queryId: "aeJWz--kknVBOl7wQ7gh7Q" },
+  { name: "Bookmarks", queryId: "Ds7FCVYEIivOKHsGcE84xQ" },
+  { name: "ListLatestTweetsTimeline", queryId: "ZBbXrl37E6za5ml-DIpmgg" }
 ];
 
+const TWEET_FEATURES: Record<string, unknown> = {
+  responsive_web_graphql_exclude_directive_enabled: true,
+  verified_phone_label_enabled: false,
+  creator_subscriptions_tweet_preview_api_enabled: true,
+  responsive_web_graphql_timeline_navigation_enabled: true,
+  responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+  c9s_tweet_anatomy_moderator_badge_enabled: true,
+  tweetypie_unmention_optimization_enabled: true,
+  responsive_web_edit_tweet_api_enabled: true,
+  graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+  view_counts_everywhere_api_enabled: true,
+  longform_notetweets_consumption_enabled: true,
+  responsive_web_twitter_article_tweet_consumption_enabled: false,
+  tweet_awards_web_tipping_enabled: false,
+  freedom_of_speech_not_reach_fetch_enabled: true,
+  standardized_nudges_misinfo: true,
+  tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled: true,
+  rweb_video_timestamps_enabled: true,
+  longform_notetweets_rich_text_read_enabled: true,
+  longform_notetweets_inline_media_enabled: true,
+  responsive_web_enhance_cards_enabled: false
+};
+
 function normalizeUsername(input: string): string {
   return input.replace(/^@/, "").trim().toLowerCase();
 }
@@ -150,8 +372,7 @@ function normalizeImageUrl(raw: string): string {
   }
 }
 
-function dedupeMedia(items: MediaItem[]): MediaItem[] {
-  const seen = new Set<string>();
+function dedupeMedia(items: MediaItem[], seen = new Set<string>()): MediaItem[] {
   const deduped: MediaItem[] = [];
 
   for (const item of items) {
@@ -187,6 +408,29 @@ function parseCookieFirstPair(cookie: string): { name: string; value: string } |
   return { name, value };
 }
 
+// Swaps the value of the named cookies that still carry the old one, keeping
+// their attributes; the cookie is added when the session had none.
+function replaceCookieValue(
+  cookies: string[],
+  name: string,
+  previous: string,
+  next: string
+): string[] {
+  let replaced = false;
+  const updated = cookies.map((cookie) => {
+    const pair = parseCookieFirstPair(cookie);
+    if (pair?.name !== name || pair.value !== previous) {
+      return cookie;
+    }
+
+    replaced = true;
+    const attributes = cookie.indexOf(";");
+    return attributes < 0 ? `${name}=${next}` : `${name}=${next}${cookie.slice(attributes)}`;
+  });
+
+  return replaced ? updated : [...updated, `${name}=${next}; Domain=.twitter.com; Path=/; Secure`];
+}
+
 function parseCookieRecord(cookie: string): CookieRecord | null {
   const segments = cookie
     .split(";")
@@ -390,6 +634,42 @@ function extractErrorDetail(payload: unknown): string {
   return "Unknown API error.";
 }
 
+function extractErrorCodes(payload: unknown): number[] {
+  const record = payload as { errors?: Array<{ code?: unknown }> } | null;
+  if (!record || !Array.isArray(record.errors)) {
+    return [];
+  }
+
+  return record.errors
+    .map((item) => item.code)
+    .filter((code): code is number => typeof code === "number");
+}
+
+// 353 is a ct0 that no longer matches the session, which a fresh one from
+// the same auth_token may fix.
+function isStaleCsrfToken(status: number, payload: unknown): boolean {
+  return status === 403 && extractErrorCodes(payload).includes(353);
+}
+
+// 326 is a temporarily locked account, 64 a suspended one; 32, 89, 215 and a
+// 353 that survived a ct0 refresh all mean the cookies no longer authenticate.
+function classifySessionFailure(status: number, payload: unknown): SessionHealthStatus | undefined {
+  const codes = extractErrorCodes(payload);
+  if (codes.includes(326)) {
+    return "locked";
+  }
+
+  if (codes.includes(64)) {
+    return "suspended";
+  }
+
+  if (status === 401 || codes.some((code) => code === 32 || code === 89 || code === 215 || code === 353)) {
+    return "expired";
+  }
+
+  return undefined;
+}
+
 function pickBestVideoVariant(media: GraphqlMediaItem): string | null {
   const variants = media.video_info?.variants ?? [];
   const valid = variants.filter((variant) => typeof variant.url === "string" && variant.url.length > 0);
@@ -477,77 +757,33 @@ function extractMainJsUrls(html: string): string[] {
 
 function extractGraphqlOperations(scriptText: string): GraphqlOperation[] {
   const operations: GraphqlOperation[] = [];
-  const userByScreenNameRegex = /([A-Za-z0-9_-]{10,})\/UserByScreenName/g;
-  const userMediaRegex = /([A-Za-z0-9_-]{10,})\/UserMedia/g;
-  const userTweetsRegex = /([A-Za-z0-9_-]{10,})\/UserTweets/g;
-
-  const objectPatterns: Array<{ name: GraphqlOperation["name"]; regex: RegExp }> = [
-    {
-      name: "UserByScreenName",
-      regex: /(?:operationName|"operationName")\s*[:=]\s*"UserByScreenName"\s*,\s*(?:queryId|"queryId")\s*[:=]\s*"([A-Za-z0-9_-]{10,})"/g
-    },
-    {
-      name: "UserByScreenName",
-      regex: /(?:queryId|"queryId")\s*[:=]\s*"([A-Za-z0-9_-]{10,})"\s*,\s*(?:operationName|"operationName")\s*[:=]\s*"UserByScreenName"/g
-    },
-    {
-      name: "UserMedia",
-      regex: /(?:operationName|"operationName")\s*[:=]\s*"UserMedia"\s*,\s*(?:queryId|"queryId")\s*[:=]\s*"([A-Za-z0-9_-]{10,})"/g
-    },
-    {
-      name: "UserMedia",
-      regex: /(?:queryId|"queryId")\s*[:=]\s*"([A-Za-z0-9_-]{10,})"\s*,\s*(?:operationName|"operationName")\s*[:=]\s*"UserMedia"/g
-    },
-    {
-      name: "UserTweets",
-      regex: /(?:operationName|"operationName")\s*[:=]\s*"UserTweets"\s*,\s*(?:queryId|"queryId")\s*[:=]\s*"([A-Za-z0-9_-]{10,})"/g
-    },
-    {
-      name: "UserTweets",
-      regex: /(?:queryId|"queryId")\s*[:=]\s*"([A-Za-z0-9_-]{10,})"\s*,\s*(?:operationName|"operationName")\s*[:=]\s*"UserTweets"/g
-    }
-  ];
-
-  const foundUserByScreenName = new Set<string>();
-  const foundUserMedia = new Set<string>();
-  const foundUserTweets = new Set<string>();
-
-  let match: RegExpExecArray | null;
-  while ((match = userByScreenNameRegex.exec(scriptText)) !== null) {
-    foundUserByScreenName.add(match[1]);
-  }
-  while ((match = userMediaRegex.exec(scriptText)) !== null) {
-    foundUserMedia.add(match[1]);
-  }
-  while ((match = userTweetsRegex.exec(scriptText)) !== null) {
-    foundUserTweets.add(match[1]);
-  }
 
-  for (const { name, regex } of objectPatterns) {
-    while ((match = regex.exec(scriptText)) !== null) {
-      const queryId = match[1];
-      if (!queryId) {
-        continue;
-      }
+  for (const name of GRAPHQL_OPERATION_NAMES) {
+    const found = new Set<string>();
+    const patterns = [
+      new RegExp(`([A-Za-z0-9_-]{10,})\\/${name}(?![A-Za-z])`, "g"),
+      new RegExp(
+        `(?:operationName|"operationName")\\s*[:=]\\s*"${name}"\\s*,\\s*(?:queryId|"queryId")\\s*[:=]\\s*"([A-Za-z0-9_-]{10,})"`,
+        "g"
+      ),
+      new RegExp(
+        `(?:queryId|"queryId")\\s*[:=]\\s*"([A-Za-z0-9_-]{10,})"\\s*,\\s*(?:operationName|"operationName")\\s*[:=]\\s*"${name}"`,
+        "g"
+      )
+    ];
 
-      if (name === "UserByScreenName") {
-        foundUserByScreenName.add(queryId);
-      } else if (name === "UserMedia") {
-        foundUserMedia.add(queryId);
-      } else {
-        foundUserTweets.add(queryId);
+    for (const regex of patterns) {
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(scriptText)) !== null) {
+        if (match[1]) {
+          found.add(match[1]);
+        }
       }
     }
-  }
 
-  for (const queryId of foundUserByScreenName) {
-    operations.push({ name: "UserByScreenName", queryId });
-  }
-  for (const queryId of foundUserMedia) {
-    operations.push({ name: "UserMedia", queryId });
-  }
-  for (const queryId of foundUserTweets) {
-    operations.push({ name: "UserTweets", queryId });
+    for (const queryId of found) {
+      operations.push({ name, queryId });
+    }
   }
 
   return operations;
@@ -583,6 +819,14 @@ function isBearerAuthFailure(status: number, detail: string): boolean {
   return detail.includes("code=32") || detail.toLowerCase().includes("authenticate");
 }
 
+// Another query ID or API version cannot help an account that is out of
+// budget or signed out, so account limits skip the remaining fallbacks.
+function rethrowAccountLimit(error: unknown): void {
+  if (readAccountLimit(error)) {
+    throw error;
+  }
+}
+
 function isLikelyQueryIdNotFound(status: number, detail: string): boolean {
   if (status !== 404) {
     return false;
@@ -614,15 +858,25 @@ function extractMissingGraphqlFeatures(detail: string): string[] {
   return Array.from(found);
 }
 
-function extractTweetFromTimelineEntry(entry: GraphqlTimelineEntry): GraphqlLegacyTweet | null {
+function unwrapTweetResult(result: GraphqlTweetResult | undefined): GraphqlTweetResult | null {
+  if (!result) {
+    return null;
+  }
+
+  if (result.__typename === "TweetWithVisibilityResults" && result.tweet) {
+    return result.tweet;
+  }
+
+  return result;
+}
+
+function extractTweetResultFromTimelineEntry(entry: GraphqlTimelineEntry): GraphqlTweetResult | null {
   const content = entry.content as
     | {
         itemContent?: {
           itemType?: string;
           tweet_results?: {
-            result?: {
-              legacy?: GraphqlLegacyTweet;
-            };
+            result?: GraphqlTweetResult;
           };
         };
       }
@@ -633,7 +887,95 @@ function extractTweetFromTimelineEntry(entry: GraphqlTimelineEntry): GraphqlLega
     return null;
   }
 
-  return item.tweet_results?.result?.legacy ?? null;
+  return unwrapTweetResult(item.tweet_results?.result);
+}
+
+// Conversation modules (threads, replies) nest their tweets one level deeper
+// than plain timeline items.
+function extractTweetResultsFromTimelineEntry(entry: GraphqlTimelineEntry): GraphqlTweetResult[] {
+  const single = extractTweetResultFromTimelineEntry(entry);
+  if (single) {
+    return [single];
+  }
+
+  const moduleItems = (entry.content as { items?: Array<{ item?: unknown }> } | undefined)?.items ?? [];
+  return moduleItems
+    .map((moduleItem) => extractTweetResultFromTimelineEntry({ content: moduleItem.item }))
+    .filter((result): result is GraphqlTweetResult => result !== null);
+}
+
+function extractBottomCursor(entry: GraphqlTimelineEntry): string | undefined {
+  if (!entry.entryId?.startsWith("cursor-bottom-")) {
+    return undefined;
+  }
+
+  const content = entry.content as
+    | {
+        value?: string;
+        itemContent?: {
+          value?: string;
+        };
+      }
+    | undefined;
+
+  return content?.value ?? content?.itemContent?.value;
+}
+
+function toResolvedTweet(result: GraphqlTweetResult | null, nested = false): ResolvedTweet | null {
+  if (!result?.legacy) {
+    return null;
+  }
+
+  const user = result.core?.user_results?.result;
+  const resolved: ResolvedTweet = {
+    tweet: result.legacy,
+    authorId: user?.rest_id ?? result.legacy.user_id_str,
+    authorScreenName: user?.core?.screen_name ?? user?.legacy?.screen_name
+  };
+
+  // Only one level is followed: a quote inside a retweet is kept, a quote of
+  // a quote is not.
+  if (!nested) {
+    const retweetedResult = unwrapTweetResult(result.legacy.retweeted_status_result?.result);
+    const quotedResult = unwrapTweetResult(
+      (retweetedResult ?? result).quoted_status_result?.result
+    );
+    resolved.retweeted = toResolvedTweet(retweetedResult, true) ?? undefined;
+    resolved.quoted = toResolvedTweet(quotedResult, true) ?? undefined;
+  }
+
+  return resolved;
+}
+
+function parseTimelineInstructions(instructions: GraphqlTimelineInstruction[]): GraphqlTimelinePage {
+  const tweets: ResolvedTweet[] = [];
+  let nextCursor: string | undefined;
+
+  for (const instruction of instructions) {
+    // Search timelines move the bottom cursor into a TimelineReplaceEntry
+    // after the first page; other single-entry instructions (pins) are skipped.
+    const entries =
+      instruction.type === "TimelineReplaceEntry" && instruction.entry
+        ? [instruction.entry]
+        : instruction.entries ?? [];
+
+    for (const entry of entries) {
+      const resolvedTweets = extractTweetResultsFromTimelineEntry(entry)
+        .map((result) => toResolvedTweet(result))
+        .filter((resolved): resolved is ResolvedTweet => resolved !== null);
+      if (resolvedTweets.length > 0) {
+        tweets.push(...resolvedTweets);
+        continue;
+      }
+
+      const cursorValue = extractBottomCursor(entry);
+      if (cursorValue) {
+        nextCursor = cursorValue;
+      }
+    }
+  }
+
+  return { tweets, nextCursor };
 }
 
 class GraphqlApiClient {
@@ -644,9 +986,15 @@ class GraphqlApiClient {
   private bearerTokenCandidates: string[];
   private bearerTokenIndex: number;
 
-  private gqlUserByScreenNameIds: string[];
-  private gqlUserMediaIds: string[];
-  private gqlUserTweetsIds: string[];
+  private gqlQueryIds: Map<GraphqlOperationName, string[]>;
+
+  private signal?: AbortSignal;
+  private failOnAccountLimit = false;
+  private csrfRefreshListener?: (previous: string, next: string) => void;
+  // Users fetched side by side share one client, so rate limit waits are
+  // reported to the listener of the call that ran into them rather than to
+  // one set on the client.
+  private readonly rateLimitWaitListener = new AsyncLocalStorage<RateLimitWaitListener>();
 
   constructor(bundle: GraphqlAuthBundle) {
     this.authCandidates = bundle.authCandidates;
@@ -656,15 +1004,12 @@ class GraphqlApiClient {
     this.bearerTokenCandidates = normalizeBearerCandidates([WEB_BEARER_TOKEN]);
     this.bearerTokenIndex = 0;
 
-    this.gqlUserByScreenNameIds = DEFAULT_GRAPHQL_OPERATIONS
-      .filter((operation) => operation.name === "UserByScreenName")
-      .map((operation) => operation.queryId);
-    this.gqlUserMediaIds = DEFAULT_GRAPHQL_OPERATIONS
-      .filter((operation) => operation.name === "UserMedia")
-      .map((operation) => operation.queryId);
-    this.gqlUserTweetsIds = DEFAULT_GRAPHQL_OPERATIONS
-      .filter((operation) => operation.name === "UserTweets")
-      .map((operation) => operation.queryId);
+    this.gqlQueryIds = new Map();
+    for (const operation of DEFAULT_GRAPHQL_OPERATIONS) {
+      const list = this.gqlQueryIds.get(operation.name) ?? [];
+      list.push(operation.queryId);
+      this.gqlQueryIds.set(operation.name, list);
+    }
   }
 
   setBundle(bundle: GraphqlAuthBundle): void {
@@ -673,10 +1018,40 @@ class GraphqlApiClient {
     this.cookieHeaderBase = bundle.cookieHeaderBase;
   }
 
+  // Applies to every request until replaced; the scraper sets it per call.
+  setSignal(signal: AbortSignal | undefined): void {
+    this.signal = signal;
+  }
+
+  // Set per call like the signal: when the caller has another account to
+  // switch to, a spent rate limit or a session X no longer accepts throws an
+  // account limit error instead of waiting or falling back.
+  setFailOnAccountLimit(enabled: boolean): void {
+    this.failOnAccountLimit = enabled;
+  }
+
+  setCsrfRefreshListener(listener: ((previous: string, next: string) => void) | undefined): void {
+    this.csrfRefreshListener = listener;
+  }
+
+  async withRateLimitWaitListener<T>(
+    listener: RateLimitWaitListener | undefined,
+    run: () => Promise<T>
+  ): Promise<T> {
+    return listener ? await this.rateLimitWaitListener.run(listener, run) : await run();
+  }
+
   private currentAuthCandidate(): GraphqlAuthCandidate {
     return this.authCandidates[this.authCandidateIndex] ?? this.authCandidates[0];
   }
 
+  // Rate limit budgets are tracked per auth token without keeping the token
+  // itself around as a key.
+  private rateLimitScope(): string {
+    const authToken = this.currentAuthCandidate().authToken;
+    return createHash("sha256").update(authToken).digest("hex").slice(0, 16);
+  }
+
   private rotateAuthCandidate(): boolean {
     if (this.authCandidateIndex + 1 >= this.authCandidates.length) {
       return false;
@@ -713,24 +1088,19 @@ class GraphqlApiClient {
     this.bearerTokenIndex = 0;
   }
 
-  private mergeGraphqlOperations(operations: GraphqlOperation[]): void {
-    const byName = (name: GraphqlOperation["name"]) =>
-      Array.from(new Set(operations.filter((operation) => operation.name === name).map((op) => op.queryId)));
-
-    const userByScreenName = byName("UserByScreenName");
-    const userMedia = byName("UserMedia");
-    const userTweets = byName("UserTweets");
-
-    if (userByScreenName.length > 0) {
-      this.gqlUserByScreenNameIds = userByScreenName;
-    }
+  private queryIdsFor(name: GraphqlOperationName): string[] {
+    return Array.from(new Set(this.gqlQueryIds.get(name) ?? []));
+  }
 
-    if (userMedia.length > 0) {
-      this.gqlUserMediaIds = userMedia;
-    }
+  private mergeGraphqlOperations(operations: GraphqlOperation[]): void {
+    for (const name of GRAPHQL_OPERATION_NAMES) {
+      const discovered = Array.from(
+        new Set(operations.filter((operation) => operation.name === name).map((op) => op.queryId))
+      );
 
-    if (userTweets.length > 0) {
-      this.gqlUserTweetsIds = userTweets;
+      if (discovered.length > 0) {
+        this.gqlQueryIds.set(name, discovered);
+      }
     }
   }
 
@@ -800,7 +1170,8 @@ class GraphqlApiClient {
               "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
             Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
             Cookie: cookieParts.join("; ")
-          }
+          },
+          signal: this.signal
         });
 
         const setCookies = this.getSetCookieHeaders(response);
@@ -814,7 +1185,9 @@ class GraphqlApiClient {
             return false;
           }
 
+          const previous = auth.ct0;
           auth.ct0 = pair.value;
+          this.csrfRefreshListener?.(previous, pair.value);
           return true;
         }
       } catch {
@@ -836,7 +1209,8 @@ class GraphqlApiClient {
             "User-Agent":
               "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
             Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"
-          }
+          },
+          signal: this.signal
         });
 
         if (!homeResponse.ok) {
@@ -852,7 +1226,8 @@ class GraphqlApiClient {
                 "User-Agent":
                   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
                 Accept: "*/*"
-              }
+              },
+              signal: this.signal
             });
 
             if (!scriptResponse.ok) {
@@ -880,17 +1255,42 @@ class GraphqlApiClient {
     return discoveredTokens.length > 0 || discoveredOperations.length > 0;
   }
 
+  // A 429 is not a failure of the request itself: the budget is recorded and
+  // the request waits for the window to reset before going out again.
+  private async fetchWithRateLimit(url: string, endpoint: string): Promise<Response> {
+    for (let attempt = 1; ; attempt += 1) {
+      const scope = this.rateLimitScope();
+      await acquireRateLimit(endpoint, this.signal, {
+        scope,
+        failFast: this.failOnAccountLimit,
+        onWait: this.rateLimitWaitListener.getStore()
+      });
+      const response = await fetch(url, {
+        headers: this.buildHeaders(),
+        signal: this.signal
+      });
+
+      if (!recordRateLimit(endpoint, response, scope) || attempt >= MAX_RATE_LIMIT_ATTEMPTS) {
+        return response;
+      }
+
+      await response.body?.cancel();
+    }
+  }
+
   private async requestJsonFromBases<T>(
     bases: string[],
     path: string,
-    params: Record<string, string>
+    params: Record<string, string>,
+    endpoint = path
   ): Promise<T> {
     const errors: string[] = [];
     const normalizedPath = path.replace(/^\/+/, "");
 
     let canRefreshMeta = true;
+    let sawAuthFailure = false;
     for (let attempt = 0; attempt < 3; attempt += 1) {
-      let sawAuthFailure = false;
+      sawAuthFailure = false;
       let sawQueryIdNotFound = false;
 
       for (const base of bases) {
@@ -900,9 +1300,7 @@ class GraphqlApiClient {
         }
 
         try {
-          const response = await fetch(url.toString(), {
-            headers: this.buildHeaders()
-          });
+          const response = await this.fetchWithRateLimit(url.toString(), endpoint);
 
           const text = await response.text();
           const parsed = parseJson(text);
@@ -926,6 +1324,8 @@ class GraphqlApiClient {
 
           return parsed as T;
         } catch (error) {
+          this.signal?.throwIfAborted();
+          rethrowAccountLimit(error);
           const message = error instanceof Error ? error.message : String(error);
           errors.push(`${url.toString()} -> ${message}`);
         }
@@ -958,11 +1358,15 @@ class GraphqlApiClient {
       break;
     }
 
+    if (sawAuthFailure && this.failOnAccountLimit) {
+      throw createAccountLimitError("auth", `graphql request failed: ${errors.join(" | ")}`);
+    }
+
     throw new Error(`graphql request failed: ${errors.join(" | ")}`);
   }
 
   private async requestGraphql<T>(
-    operationName: GraphqlOperation["name"],
+    operationName: GraphqlOperationName,
     queryId: string,
     variables: Record<string, unknown>,
     features?: Record<string, unknown>
@@ -983,7 +1387,7 @@ class GraphqlApiClient {
       }
 
       try {
-        return await this.requestJsonFromBases<T>(GRAPHQL_BASES, path, params);
+        return await this.requestJsonFromBases<T>(GRAPHQL_BASES, path, params, operationName);
       } catch (error) {
         lastError = error;
         const message = error instanceof Error ? error.message : String(error);
@@ -1004,7 +1408,7 @@ class GraphqlApiClient {
   }
 
   async resolveUserIdByGraphql(username: string): Promise<string> {
-    const operations = Array.from(new Set(this.gqlUserByScreenNameIds));
+    const operations = this.queryIdsFor("UserByScreenName");
     const errors: string[] = [];
 
     for (const queryId of operations) {
@@ -1040,6 +1444,7 @@ class GraphqlApiClient {
           return userId;
         }
       } catch (error) {
+        rethrowAccountLimit(error);
         errors.push(error instanceof Error ? error.message : String(error));
       }
     }
@@ -1050,11 +1455,18 @@ class GraphqlApiClient {
   async fetchUserMediaByGraphql(
     userId: string,
     count: number,
-    cursor?: string
-  ): Promise<{ tweets: GraphqlLegacyTweet[]; nextCursor?: string }> {
-    const operations: Array<{ name: GraphqlOperation["name"]; queryId: string }> = [
-      ...this.gqlUserTweetsIds.map((queryId) => ({ name: "UserTweets" as const, queryId })),
-      ...this.gqlUserMediaIds.map((queryId) => ({ name: "UserMedia" as const, queryId }))
+    cursor?: string,
+    includeReplies = false
+  ): Promise<GraphqlTimelinePage> {
+    const operations: GraphqlOperation[] = [
+      ...(includeReplies
+        ? this.queryIdsFor("UserTweetsAndReplies").map((queryId) => ({
+            name: "UserTweetsAndReplies" as const,
+            queryId
+          }))
+        : []),
+      ...this.queryIdsFor("UserTweets").map((queryId) => ({ name: "UserTweets" as const, queryId })),
+      ...this.queryIdsFor("UserMedia").map((queryId) => ({ name: "UserMedia" as const, queryId }))
     ];
     const errors: string[] = [];
 
@@ -1099,40 +1511,11 @@ class GraphqlApiClient {
           }
         );
 
-        const instructions =
-          response.data?.user?.result?.timeline_v2?.timeline?.instructions ?? [];
-
-        const tweets: GraphqlLegacyTweet[] = [];
-        let nextCursor: string | undefined;
-
-        for (const instruction of instructions) {
-          const entries = instruction.entries ?? [];
-          for (const entry of entries) {
-            const tweet = extractTweetFromTimelineEntry(entry);
-            if (tweet) {
-              tweets.push(tweet);
-              continue;
-            }
-
-            if (entry.entryId?.startsWith("cursor-bottom-")) {
-              const content = entry.content as
-                | {
-                    value?: string;
-                    itemContent?: {
-                      value?: string;
-                    };
-                  }
-                | undefined;
-              const cursorValue = content?.value ?? content?.itemContent?.value;
-              if (cursorValue) {
-                nextCursor = cursorValue;
-              }
-            }
-          }
-        }
-
-        return { tweets, nextCursor };
+        return parseTimelineInstructions(
+          response.data?.user?.result?.timeline_v2?.timeline?.instructions ?? []
+        );
       } catch (error) {
+        rethrowAccountLimit(error);
         errors.push(error instanceof Error ? error.message : String(error));
       }
     }
@@ -1140,47 +1523,359 @@ class GraphqlApiClient {
     throw new Error(`GraphQL UserMedia failed: ${errors.join(" | ")}`);
   }
 
-  async fetchUserTimelineV11(username: string, count: number, maxId?: string): Promise<V11Status[]> {
-    const params: Record<string, string> = {
-      screen_name: username,
-      count: String(Math.min(200, Math.max(1, count))),
-      include_rts: "false",
-      exclude_replies: "true",
-      tweet_mode: "extended",
-      include_ext_alt_text: "true"
-    };
-
-    if (maxId) {
-      params.max_id = maxId;
-    }
+  async searchTimelineByGraphql(
+    rawQuery: string,
+    count: number,
+    cursor?: string
+  ): Promise<GraphqlTimelinePage> {
+    const errors: string[] = [];
 
-    const response = await this.requestJsonFromBases<V11Status[] | { errors?: unknown }>(
-      API_V11_BASES,
-      "statuses/user_timeline.json",
-      params
-    );
+    for (const queryId of this.queryIdsFor("SearchTimeline")) {
+      try {
+        const response = await this.requestGraphql<GraphqlSearchTimelineResponse>(
+          "SearchTimeline",
+          queryId,
+          {
+            rawQuery,
+            count,
+            querySource: "typed_query",
+            product: "Latest",
+            cursor
+          },
+          TWEET_FEATURES
+        );
 
-    if (Array.isArray(response)) {
-      return response;
+        return parseTimelineInstructions(
+          response.data?.search_by_raw_query?.search_timeline?.timeline?.instructions ?? []
+        );
+      } catch (error) {
+        rethrowAccountLimit(error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
     }
 
-    throw new Error(`Timeline response invalid: ${extractErrorDetail(response)}`);
+    throw new Error(`GraphQL SearchTimeline failed: ${errors.join(" | ")}`);
   }
-}
 
-function mapMediaToItemsFromTweet(
-  tweetId: string,
-  createdAt: string | undefined,
-  medias: GraphqlMediaItem[],
-  username: string,
-  allowedKinds: Set<MediaKind>
-): MediaItem[] {
-  const items: MediaItem[] = [];
-  let index = 0;
+  async fetchLikesByGraphql(
+    userId: string,
+    count: number,
+    cursor?: string
+  ): Promise<GraphqlTimelinePage> {
+    const errors: string[] = [];
 
-  for (const media of medias) {
-    let url: string | null = null;
-    if (media.type === "photo") {
+    for (const queryId of this.queryIdsFor("Likes")) {
+      try {
+        const response = await this.requestGraphql<GraphqlLikesResponse>(
+          "Likes",
+          queryId,
+          {
+            userId,
+            count,
+            includePromotedContent: false,
+            withClientEventToken: false,
+            withBirdwatchNotes: false,
+            withVoice: true,
+            cursor
+          },
+          TWEET_FEATURES
+        );
+
+        const result = response.data?.user?.result;
+        return parseTimelineInstructions(
+          result?.timeline?.timeline?.instructions ?? result?.timeline_v2?.timeline?.instructions ?? []
+        );
+      } catch (error) {
+        rethrowAccountLimit(error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    throw new Error(`GraphQL Likes failed: ${errors.join(" | ")}`);
+  }
+
+  async fetchBookmarksByGraphql(count: number, cursor?: string): Promise<GraphqlTimelinePage> {
+    const errors: string[] = [];
+
+    for (const queryId of this.queryIdsFor("Bookmarks")) {
+      try {
+        const response = await this.requestGraphql<GraphqlBookmarksResponse>(
+          "Bookmarks",
+          queryId,
+          {
+            count,
+            includePromotedContent: false,
+            cursor
+          },
+          TWEET_FEATURES
+        );
+
+        return parseTimelineInstructions(
+          response.data?.bookmark_timeline_v2?.timeline?.instructions ?? []
+        );
+      } catch (error) {
+        rethrowAccountLimit(error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    throw new Error(`GraphQL Bookmarks failed: ${errors.join(" | ")}`);
+  }
+
+  async fetchListTimelineByGraphql(
+    listId: string,
+    count: number,
+    cursor?: string
+  ): Promise<GraphqlTimelinePage> {
+    const errors: string[] = [];
+
+    for (const queryId of this.queryIdsFor("ListLatestTweetsTimeline")) {
+      try {
+        const response = await this.requestGraphql<GraphqlListTimelineResponse>(
+          "ListLatestTweetsTimeline",
+          queryId,
+          {
+            listId,
+            count,
+            cursor
+          },
+          TWEET_FEATURES
+        );
+
+        return parseTimelineInstructions(
+          response.data?.list?.tweets_timeline?.timeline?.instructions ?? []
+        );
+      } catch (error) {
+        rethrowAccountLimit(error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    throw new Error(`GraphQL ListLatestTweetsTimeline failed: ${errors.join(" | ")}`);
+  }
+
+  async fetchTweetByGraphql(tweetId: string): Promise<ResolvedTweet> {
+    const errors: string[] = [];
+
+    for (const queryId of this.queryIdsFor("TweetDetail")) {
+      try {
+        const response = await this.requestGraphql<GraphqlTweetDetailResponse>(
+          "TweetDetail",
+          queryId,
+          {
+            focalTweetId: tweetId,
+            with_rux_injections: false,
+            includePromotedContent: false,
+            withCommunity: true,
+            withQuickPromoteEligibilityTweetFields: false,
+            withBirdwatchNotes: false,
+            withVoice: true,
+            withV2Timeline: true
+          },
+          TWEET_FEATURES
+        );
+
+        const instructions =
+          response.data?.threaded_conversation_with_injections_v2?.instructions ?? [];
+        for (const instruction of instructions) {
+          for (const entry of instruction.entries ?? []) {
+            const resolved = toResolvedTweet(extractTweetResultFromTimelineEntry(entry));
+            if (resolved?.tweet.id_str === tweetId) {
+              return resolved;
+            }
+          }
+        }
+
+        errors.push(`TweetDetail ${queryId} -> focal tweet missing from conversation`);
+      } catch (error) {
+        rethrowAccountLimit(error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    for (const queryId of this.queryIdsFor("TweetResultByRestId")) {
+      try {
+        const response = await this.requestGraphql<GraphqlTweetResultByRestIdResponse>(
+          "TweetResultByRestId",
+          queryId,
+          {
+            tweetId,
+            withCommunity: false,
+            includePromotedContent: false,
+            withVoice: false
+          },
+          TWEET_FEATURES
+        );
+
+        const resolved = toResolvedTweet(unwrapTweetResult(response.data?.tweetResult?.result));
+        if (resolved) {
+          return resolved;
+        }
+
+        errors.push(`TweetResultByRestId ${queryId} -> tweet unavailable`);
+      } catch (error) {
+        rethrowAccountLimit(error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    throw new Error(`GraphQL TweetDetail failed: ${errors.join(" | ")}`);
+  }
+
+  // One cheap authenticated call; its status, error codes and rate limit
+  // headers tell whether the session still works.
+  async verifyCredentials(): Promise<SessionHealth> {
+    const errors: string[] = [];
+    let csrfRefreshed = false;
+    for (let index = 0; index < API_V11_BASES.length; index += 1) {
+      const base = API_V11_BASES[index];
+      const url = new URL("account/verify_credentials.json", base);
+      url.searchParams.set("skip_status", "true");
+      url.searchParams.set("include_entities", "false");
+
+      try {
+        const response = await this.fetchWithRateLimit(url.toString(), "account/verify_credentials");
+        const parsed = parseJson(await response.text());
+        const rateLimit = readRateLimitBudget(response.headers);
+
+        if (response.ok) {
+          const user = parsed as { screen_name?: string; id_str?: string } | null;
+          if (user?.screen_name) {
+            return { status: "active", screenName: user.screen_name, userId: user.id_str, rateLimit };
+          }
+
+          errors.push(`${url.toString()} -> empty JSON response`);
+          continue;
+        }
+
+        const detail = extractErrorDetail(parsed);
+        if (!csrfRefreshed && isStaleCsrfToken(response.status, parsed)) {
+          csrfRefreshed = true;
+          if (await this.refreshCsrfTokenFromCurrentAuth()) {
+            errors.push("csrf token refresh succeeded, retrying request once.");
+            index -= 1;
+            continue;
+          }
+        }
+
+        const status = classifySessionFailure(response.status, parsed);
+        if (status) {
+          return { status, detail, rateLimit };
+        }
+
+        errors.push(`${url.toString()} -> ${response.status} ${detail}`);
+      } catch (error) {
+        this.signal?.throwIfAborted();
+        const limit = readAccountLimit(error);
+        if (limit) {
+          return {
+            status: "rate_limited",
+            detail: limit.message,
+            rateLimit: {
+              remaining: 0,
+              resetAt: limit.retryAtMs !== undefined ? new Date(limit.retryAtMs).toISOString() : undefined
+            }
+          };
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${url.toString()} -> ${message}`);
+      }
+    }
+
+    throw new Error(`session verification failed: ${errors.join(" | ")}`);
+  }
+
+  async fetchTweetV11(tweetId: string): Promise<V11Status> {
+    const response = await this.requestJsonFromBases<V11Status | { errors?: unknown }>(
+      API_V11_BASES,
+      "statuses/show.json",
+      {
+        id: tweetId,
+        tweet_mode: "extended",
+        include_ext_alt_text: "true"
+      }
+    );
+
+    if (response && typeof response === "object" && "id_str" in response && response.id_str) {
+      return response;
+    }
+
+    throw new Error(`Tweet response invalid: ${extractErrorDetail(response)}`);
+  }
+
+  async fetchUserTimelineV11(
+    username: string,
+    count: number,
+    maxId?: string,
+    sinceId?: string,
+    include: ContentInclusion = {}
+  ): Promise<V11Status[]> {
+    const params: Record<string, string> = {
+      screen_name: username,
+      count: String(Math.min(200, Math.max(1, count))),
+      include_rts: include.retweets ? "true" : "false",
+      exclude_replies: include.replies ? "false" : "true",
+      tweet_mode: "extended",
+      include_ext_alt_text: "true"
+    };
+
+    if (maxId) {
+      params.max_id = maxId;
+    }
+
+    if (sinceId) {
+      params.since_id = sinceId;
+    }
+
+    const response = await this.requestJsonFromBases<V11Status[] | { errors?: unknown }>(
+      API_V11_BASES,
+      "statuses/user_timeline.json",
+      params
+    );
+
+    if (Array.isArray(response)) {
+      return response;
+    }
+
+    throw new Error(`Timeline response invalid: ${extractErrorDetail(response)}`);
+  }
+}
+
+function readOptionalCount(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function extractTweetDetails(tweet: TweetTextAndCounts): Pick<MediaItem, "text" | "lang" | "metrics"> {
+  const metrics: TweetMetrics = {
+    likes: readOptionalCount(tweet.favorite_count),
+    retweets: readOptionalCount(tweet.retweet_count),
+    replies: readOptionalCount(tweet.reply_count),
+    quotes: readOptionalCount(tweet.quote_count),
+    bookmarks: readOptionalCount(tweet.bookmark_count)
+  };
+
+  return {
+    text: tweet.full_text ?? tweet.text,
+    lang: tweet.lang,
+    metrics
+  };
+}
+
+function mapMediaToItemsFromTweet(
+  tweetId: string,
+  createdAt: string | undefined,
+  medias: GraphqlMediaItem[],
+  username: string,
+  allowedKinds: Set<MediaKind>,
+  details: Pick<MediaItem, "text" | "lang" | "metrics" | "relation" | "author">
+): MediaItem[] {
+  const items: MediaItem[] = [];
+  let index = 0;
+
+  for (const [position, media] of medias.entries()) {
+    let url: string | null = null;
+    if (media.type === "photo") {
       url = normalizeImageUrl(media.media_url_https ?? media.media_url ?? "");
     } else if (media.type === "video" || media.type === "animated_gif") {
       url = pickBestVideoVariant(media);
@@ -1203,7 +1898,10 @@ function mapMediaToItemsFromTweet(
       kind,
       url,
       createdAt,
-      filenameHint: `${tweetId}_${mediaId}`
+      filenameHint: `${tweetId}_${mediaId}`,
+      index: position + 1,
+      relation: "original",
+      ...details
     });
     index += 1;
   }
@@ -1235,7 +1933,14 @@ function mapGraphqlTweetToMediaItems(
     return [];
   }
 
-  return mapMediaToItemsFromTweet(tweetId, tweet.created_at, medias, username, allowedKinds);
+  return mapMediaToItemsFromTweet(
+    tweetId,
+    tweet.created_at,
+    medias,
+    username,
+    allowedKinds,
+    extractTweetDetails(tweet)
+  );
 }
 
 function mapV11TweetToMediaItems(
@@ -1262,12 +1967,193 @@ function mapV11TweetToMediaItems(
     return [];
   }
 
-  return mapMediaToItemsFromTweet(tweetId, tweet.created_at, medias, normalizedUsername, allowedKinds);
+  return mapMediaToItemsFromTweet(
+    tweetId,
+    tweet.created_at,
+    medias,
+    normalizedUsername,
+    allowedKinds,
+    extractTweetDetails(tweet)
+  );
+}
+
+type RelatedTweetSource = Pick<
+  GraphqlLegacyTweet,
+  "id_str" | "created_at" | "entities" | "extended_entities"
+> &
+  TweetTextAndCounts;
+
+function mapRelatedTweet(
+  resolved: { tweet: RelatedTweetSource; authorScreenName?: string },
+  username: string,
+  allowedKinds: Set<MediaKind>,
+  relation: MediaRelation
+): MediaItem[] {
+  const tweetId = resolved.tweet.id_str;
+  const medias = resolved.tweet.extended_entities?.media ?? resolved.tweet.entities?.media ?? [];
+  if (!tweetId || medias.length === 0) {
+    return [];
+  }
+
+  return mapMediaToItemsFromTweet(tweetId, resolved.tweet.created_at, medias, username, allowedKinds, {
+    ...extractTweetDetails(resolved.tweet),
+    relation,
+    author: resolved.authorScreenName ? normalizeUsername(resolved.authorScreenName) : undefined
+  });
+}
+
+// Maps one entry of the user's own timeline. Retweets, quoted media and
+// self-replies are opt-in; replies to other people are always dropped.
+function mapGraphqlTimelineTweet(
+  resolved: ResolvedTweet,
+  expectedUserId: string,
+  username: string,
+  allowedKinds: Set<MediaKind>,
+  include: ContentInclusion
+): MediaItem[] {
+  const { tweet } = resolved;
+  if (tweet.retweeted_status_result) {
+    if (!include.retweets || !resolved.retweeted) {
+      return [];
+    }
+
+    return [
+      ...mapRelatedTweet(resolved.retweeted, username, allowedKinds, "retweet"),
+      ...(include.quotes && resolved.quoted
+        ? mapRelatedTweet(resolved.quoted, username, allowedKinds, "quote")
+        : [])
+    ];
+  }
+
+  const authorId = resolved.authorId ?? tweet.user_id_str;
+  if (authorId && authorId !== expectedUserId) {
+    return [];
+  }
+
+  let relation: MediaRelation = "original";
+  if (tweet.in_reply_to_status_id_str) {
+    if (!include.replies || tweet.in_reply_to_user_id_str !== expectedUserId) {
+      return [];
+    }
+
+    relation = "reply";
+  }
+
+  return [
+    ...mapRelatedTweet({ tweet }, username, allowedKinds, relation),
+    ...(include.quotes && resolved.quoted
+      ? mapRelatedTweet(resolved.quoted, username, allowedKinds, "quote")
+      : [])
+  ];
+}
+
+function toRelatedV11Tweet(status: V11Status): { tweet: V11Status; authorScreenName?: string } {
+  return {
+    tweet: status,
+    authorScreenName: status.user?.screen_name
+  };
+}
+
+function mapV11TimelineTweet(
+  status: V11Status,
+  normalizedUsername: string,
+  allowedKinds: Set<MediaKind>,
+  include: ContentInclusion
+): MediaItem[] {
+  if (status.retweeted_status) {
+    if (!include.retweets) {
+      return [];
+    }
+
+    const original = status.retweeted_status;
+    return [
+      ...mapRelatedTweet(toRelatedV11Tweet(original), normalizedUsername, allowedKinds, "retweet"),
+      ...(include.quotes && original.quoted_status
+        ? mapRelatedTweet(
+            toRelatedV11Tweet(original.quoted_status),
+            normalizedUsername,
+            allowedKinds,
+            "quote"
+          )
+        : [])
+    ];
+  }
+
+  const author = status.user?.screen_name?.toLowerCase();
+  if (author && author !== normalizedUsername) {
+    return [];
+  }
+
+  let relation: MediaRelation = "original";
+  if (status.in_reply_to_status_id_str) {
+    if (!include.replies || !status.user?.id_str || status.in_reply_to_user_id_str !== status.user.id_str) {
+      return [];
+    }
+
+    relation = "reply";
+  }
+
+  return [
+    ...mapRelatedTweet({ tweet: status }, normalizedUsername, allowedKinds, relation),
+    ...(include.quotes && status.quoted_status
+      ? mapRelatedTweet(
+          toRelatedV11Tweet(status.quoted_status),
+          normalizedUsername,
+          allowedKinds,
+          "quote"
+        )
+      : [])
+  ];
 }
 
+export interface VerifyGraphqlSessionOptions {
+  signal?: AbortSignal;
+  // Receives the session's cookies with a refreshed ct0, for the caller to
+  // save.
+  onCookiesUpdated?: (cookies: string[]) => void;
+}
+
+// Used by `whoami --verify`; a spent rate limit is reported rather than
+// waited out.
+export async function verifyGraphqlSession(
+  session: SessionData,
+  options: VerifyGraphqlSessionOptions = {}
+): Promise<SessionHealth> {
+  const client = new GraphqlApiClient(buildGraphqlAuthBundle(session));
+  client.setSignal(options.signal);
+  client.setFailOnAccountLimit(true);
+  client.setCsrfRefreshListener((previous, next) => {
+    options.onCookiesUpdated?.(replaceCookieValue(session.cookies, "ct0", previous, next));
+  });
+  return await client.verifyCredentials();
+}
+
+interface TimelineStreamInput {
+  username: string;
+  maxTweets: number;
+  allowedKinds: Set<MediaKind>;
+  include: ContentInclusion;
+  // Media already yielded for this timeline, shared across its pages.
+  seen: Set<string>;
+  sinceTweetId?: string;
+  untilTweetId?: string;
+  onTimelinePage?: FetchUserMediaInput["onTimelinePage"];
+  onTimelineEnd?: FetchUserMediaInput["onTimelineEnd"];
+  onWarning?: FetchUserMediaInput["onWarning"];
+  onRateLimitWait?: RateLimitWaitListener;
+}
+
+// Which X API the scraper reads from. Both share one client; falling back
+// from one to the other is left to the engine chain.
+export type GraphqlScraperApi = "graphql" | "v11";
+
 export class GraphqlMediaScraper implements MediaScraper {
   private initialized = false;
   private client: GraphqlApiClient | null = null;
+  private cookies: string[] = [];
+  private cookieListener?: (cookies: string[]) => void;
+
+  constructor(private readonly api: GraphqlScraperApi = "graphql") {}
 
   async initialize(session: SessionData): Promise<void> {
     const bundle = buildGraphqlAuthBundle(session);
@@ -1278,119 +2164,352 @@ export class GraphqlMediaScraper implements MediaScraper {
       this.client.setBundle(bundle);
     }
 
+    this.cookies = [...session.cookies];
+    this.client.setCsrfRefreshListener((previous, next) => {
+      this.cookies = replaceCookieValue(this.cookies, "ct0", previous, next);
+      this.cookieListener?.([...this.cookies]);
+    });
     this.initialized = true;
   }
 
-  private async fetchViaGraphql(
-    username: string,
-    maxTweets: number,
-    allowedKinds: Set<MediaKind>
-  ): Promise<MediaItem[]> {
+  onCookiesUpdated(listener: (cookies: string[]) => void): void {
+    this.cookieListener = listener;
+  }
+
+  private async *streamViaGraphql(input: TimelineStreamInput): AsyncGenerator<MediaItem[], void, void> {
     if (!this.client) {
       throw new Error("graphql client missing.");
     }
 
-    const userId = await this.client.resolveUserIdByGraphql(username);
+    const client = this.client;
+    const { username, maxTweets, allowedKinds, include, seen, sinceTweetId, untilTweetId } = input;
+    const userId = await client.withRateLimitWaitListener(input.onRateLimitWait, () =>
+      client.resolveUserIdByGraphql(username)
+    );
 
-    const collected: MediaItem[] = [];
     let remaining = maxTweets;
     let cursor: string | undefined;
-    let guard = 0;
+    let pages = 0;
+    let end: TimelineWalkEnd = "truncated";
+
+    while (remaining > 0) {
+      if (pages >= MAX_TIMELINE_PAGES) {
+        input.onWarning?.(TIMELINE_PAGE_LIMIT_WARNING);
+        break;
+      }
 
-    while (remaining > 0 && guard < 30) {
-      guard += 1;
       const pageSize = Math.min(100, remaining);
-      const page = await this.client.fetchUserMediaByGraphql(userId, pageSize, cursor);
+      const page = await client.withRateLimitWaitListener(input.onRateLimitWait, () =>
+        client.fetchUserMediaByGraphql(userId, pageSize, cursor, include.replies === true)
+      );
 
       if (page.tweets.length === 0) {
+        end = "complete";
         break;
       }
 
-      for (const tweet of page.tweets) {
+      // Timelines are newest first: tweets past the upper bound are skipped
+      // without counting against maxTweets or the page cap, so a range far
+      // back in time is still reached, and the first tweet at or below the
+      // lower bound ends pagination.
+      const pageItems: MediaItem[] = [];
+      const walkedTweetIds: string[] = [];
+      let reachedKnownTweet = false;
+      let newerThanRange = 0;
+      for (const resolved of page.tweets) {
+        const tweetId = resolved.tweet.id_str;
+        if (tweetId && !isTweetIdAfter(tweetId, sinceTweetId)) {
+          reachedKnownTweet = true;
+          continue;
+        }
+
+        if (tweetId && !isTweetIdBefore(tweetId, untilTweetId)) {
+          newerThanRange += 1;
+          continue;
+        }
+
         remaining -= 1;
-        collected.push(...mapGraphqlTweetToMediaItems(tweet, userId, username, allowedKinds));
+        if (tweetId) {
+          walkedTweetIds.push(tweetId);
+        }
+        pageItems.push(...mapGraphqlTimelineTweet(resolved, userId, username, allowedKinds, include));
       }
 
-      if (!page.nextCursor || page.nextCursor === cursor) {
+      if (newerThanRange < page.tweets.length) {
+        pages += 1;
+      }
+
+      input.onTimelinePage?.({ tweetIds: walkedTweetIds });
+      const fresh = dedupeMedia(pageItems, seen);
+      if (fresh.length > 0) {
+        yield fresh;
+      }
+
+      if (reachedKnownTweet || !page.nextCursor || page.nextCursor === cursor) {
+        end = "complete";
         break;
       }
 
       cursor = page.nextCursor;
     }
 
-    return dedupeMedia(collected);
+    input.onTimelineEnd?.(end);
   }
 
-  private async fetchViaV11(
-    username: string,
-    maxTweets: number,
-    allowedKinds: Set<MediaKind>
-  ): Promise<MediaItem[]> {
+  private async *streamViaV11(input: TimelineStreamInput): AsyncGenerator<MediaItem[], void, void> {
     if (!this.client) {
       throw new Error("graphql client missing.");
     }
 
+    const client = this.client;
+    const { username, maxTweets, allowedKinds, include, seen, sinceTweetId, untilTweetId } = input;
     const normalizedUsername = username.toLowerCase();
-    const collected: MediaItem[] = [];
     let remaining = maxTweets;
-    let maxId: string | undefined;
-    let guard = 0;
+    // max_id is inclusive, so start just below the exclusive upper bound.
+    let maxId =
+      untilTweetId && /^\d+$/.test(untilTweetId) && BigInt(untilTweetId) > 0n
+        ? (BigInt(untilTweetId) - 1n).toString()
+        : undefined;
+    let pages = 0;
+    let end: TimelineWalkEnd = "truncated";
+
+    while (remaining > 0) {
+      if (pages >= MAX_TIMELINE_PAGES) {
+        input.onWarning?.(TIMELINE_PAGE_LIMIT_WARNING);
+        break;
+      }
 
-    while (remaining > 0 && guard < 30) {
-      guard += 1;
+      pages += 1;
       const pageSize = Math.min(200, remaining);
-      const page = await this.client.fetchUserTimelineV11(username, pageSize, maxId);
+      const page = await client.withRateLimitWaitListener(input.onRateLimitWait, () =>
+        client.fetchUserTimelineV11(username, pageSize, maxId, sinceTweetId, include)
+      );
 
       if (page.length === 0) {
+        end = "complete";
         break;
       }
 
+      const pageItems: MediaItem[] = [];
+      const walkedTweetIds: string[] = [];
+      let reachedKnownTweet = false;
       for (const tweet of page) {
+        if (tweet.id_str && !isTweetIdAfter(tweet.id_str, sinceTweetId)) {
+          reachedKnownTweet = true;
+          continue;
+        }
+
+        if (tweet.id_str && !isTweetIdBefore(tweet.id_str, untilTweetId)) {
+          continue;
+        }
+
         remaining -= 1;
-        collected.push(...mapV11TweetToMediaItems(tweet, normalizedUsername, allowedKinds));
+        if (tweet.id_str) {
+          walkedTweetIds.push(tweet.id_str);
+        }
+        pageItems.push(...mapV11TimelineTweet(tweet, normalizedUsername, allowedKinds, include));
+      }
+
+      input.onTimelinePage?.({ tweetIds: walkedTweetIds });
+      const fresh = dedupeMedia(pageItems, seen);
+      if (fresh.length > 0) {
+        yield fresh;
       }
 
       const last = page[page.length - 1];
       const lastId = last?.id_str;
-      if (!lastId || !/^\d+$/.test(lastId)) {
+      if (reachedKnownTweet || !lastId || !/^\d+$/.test(lastId)) {
+        end = "complete";
         break;
       }
 
       const nextMax = (BigInt(lastId) - 1n).toString();
       if (nextMax === lastId) {
+        end = "complete";
         break;
       }
 
       maxId = nextMax;
     }
 
-    return dedupeMedia(collected);
+    input.onTimelineEnd?.(end);
+  }
+
+  // Yields each timeline page's media as soon as it is mapped.
+  async *fetchUserMediaPages(input: FetchUserMediaInput): AsyncGenerator<MediaItem[], void, void> {
+    if (!this.initialized || !this.client) {
+      throw new Error(`${this.api} scraper not initialized.`);
+    }
+
+    this.client.setSignal(input.signal);
+    this.client.setFailOnAccountLimit(input.failOnAccountLimit === true);
+
+    const stream = this.api === "v11" ? this.streamViaV11 : this.streamViaGraphql;
+    yield* stream.call(this, {
+      username: normalizeUsername(input.username),
+      maxTweets: input.maxTweets ?? 200,
+      allowedKinds: new Set(input.mediaKinds),
+      include: input.include ?? {},
+      seen: new Set<string>(),
+      sinceTweetId: input.sinceTweetId,
+      untilTweetId: input.untilTweetId,
+      onTimelinePage: input.onTimelinePage,
+      onTimelineEnd: input.onTimelineEnd,
+      onWarning: input.onWarning,
+      onRateLimitWait: input.onRateLimitWait
+    });
   }
 
   async fetchUserMedia(input: FetchUserMediaInput): Promise<MediaItem[]> {
+    const items: MediaItem[] = [];
+    for await (const page of this.fetchUserMediaPages(input)) {
+      items.push(...page);
+    }
+
+    return items;
+  }
+
+  private async collectTimelineMedia(
+    fetchPage: (count: number, cursor?: string) => Promise<GraphqlTimelinePage>,
+    maxTweets: number,
+    allowedKinds: Set<MediaKind>,
+    onWarning?: (message: string) => void
+  ): Promise<MediaItem[]> {
+    const collected: MediaItem[] = [];
+    let remaining = maxTweets;
+    let cursor: string | undefined;
+    let pages = 0;
+
+    while (remaining > 0) {
+      if (pages >= MAX_TIMELINE_PAGES) {
+        onWarning?.(TIMELINE_PAGE_LIMIT_WARNING);
+        break;
+      }
+
+      pages += 1;
+      const pageSize = Math.min(100, remaining);
+      const page = await fetchPage(pageSize, cursor);
+
+      if (page.tweets.length === 0) {
+        break;
+      }
+
+      for (const resolved of page.tweets) {
+        remaining -= 1;
+        const username = normalizeUsername(resolved.authorScreenName ?? "unknown");
+        collected.push(
+          ...mapGraphqlTweetToMediaItems(
+            resolved.tweet,
+            resolved.authorId ?? resolved.tweet.user_id_str ?? "",
+            username,
+            allowedKinds
+          )
+        );
+      }
+
+      if (!page.nextCursor || page.nextCursor === cursor) {
+        break;
+      }
+
+      cursor = page.nextCursor;
+    }
+
+    return dedupeMedia(collected);
+  }
+
+  async fetchSourceMedia(input: FetchSourceMediaInput): Promise<MediaItem[]> {
     if (!this.initialized || !this.client) {
-      throw new Error("graphql scraper not initialized.");
+      throw new Error(`${this.api} scraper not initialized.`);
     }
 
-    const username = normalizeUsername(input.username);
+    if (this.api === "v11") {
+      throw new Error(`v11 does not support source type: ${input.source.type}`);
+    }
+
+    const client = this.client;
+    client.setSignal(input.signal);
+    client.setFailOnAccountLimit(input.failOnAccountLimit === true);
+    return await client.withRateLimitWaitListener(input.onRateLimitWait, () =>
+      this.collectSourceMedia(client, input)
+    );
+  }
+
+  private async collectSourceMedia(
+    client: GraphqlApiClient,
+    input: FetchSourceMediaInput
+  ): Promise<MediaItem[]> {
+    const source: MediaSource = input.source;
     const maxTweets = input.maxTweets ?? 200;
     const allowedKinds = new Set(input.mediaKinds);
 
-    const errors: string[] = [];
+    switch (source.type) {
+      case "search":
+        return await this.collectTimelineMedia(
+          (count, cursor) => client.searchTimelineByGraphql(source.query, count, cursor),
+          maxTweets,
+          allowedKinds,
+          input.onWarning
+        );
+      case "likes": {
+        const userId = await client.resolveUserIdByGraphql(normalizeUsername(source.username));
+        return await this.collectTimelineMedia(
+          (count, cursor) => client.fetchLikesByGraphql(userId, count, cursor),
+          maxTweets,
+          allowedKinds,
+          input.onWarning
+        );
+      }
+      case "bookmarks":
+        return await this.collectTimelineMedia(
+          (count, cursor) => client.fetchBookmarksByGraphql(count, cursor),
+          maxTweets,
+          allowedKinds,
+          input.onWarning
+        );
+      case "list":
+        return await this.collectTimelineMedia(
+          (count, cursor) => client.fetchListTimelineByGraphql(source.listId, count, cursor),
+          maxTweets,
+          allowedKinds,
+          input.onWarning
+        );
+      default: {
+        const unreachable: never = source;
+        throw new Error(`graphql does not support source: ${JSON.stringify(unreachable)}`);
+      }
+    }
+  }
 
-    try {
-      return await this.fetchViaGraphql(username, maxTweets, allowedKinds);
-    } catch (error) {
-      errors.push(`graphql: ${error instanceof Error ? error.message : String(error)}`);
+  async fetchTweetMedia(input: FetchTweetMediaInput): Promise<MediaItem[]> {
+    if (!this.initialized || !this.client) {
+      throw new Error(`${this.api} scraper not initialized.`);
     }
 
-    try {
-      return await this.fetchViaV11(username, maxTweets, allowedKinds);
-    } catch (error) {
-      errors.push(`v1.1: ${error instanceof Error ? error.message : String(error)}`);
+    const client = this.client;
+    const allowedKinds = new Set(input.mediaKinds);
+    client.setSignal(input.signal);
+    client.setFailOnAccountLimit(input.failOnAccountLimit === true);
+
+    if (this.api === "v11") {
+      const status = await client.withRateLimitWaitListener(input.onRateLimitWait, () =>
+        client.fetchTweetV11(input.tweetId)
+      );
+      const username = normalizeUsername(status.user?.screen_name ?? "unknown");
+      return dedupeMedia(mapV11TweetToMediaItems(status, username, allowedKinds));
     }
 
-    throw new Error(`graphql failed: ${errors.join(" | ")}`);
+    const resolved = await client.withRateLimitWaitListener(input.onRateLimitWait, () =>
+      client.fetchTweetByGraphql(input.tweetId)
+    );
+    const username = normalizeUsername(resolved.authorScreenName ?? "unknown");
+    return dedupeMedia(
+      mapGraphqlTweetToMediaItems(
+        resolved.tweet,
+        resolved.authorId ?? resolved.tweet.user_id_str ?? "",
+        username,
+        allowedKinds
+      )
+    );
   }
 
   async close(): Promise<void> {
@@ -1,24 +1,93 @@
 import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
-import type { MediaItem, MediaKind, ScraperEngine, SessionData } from "@huangjz11/shared";
+import type {
+  ContentInclusion,
+  MediaItem,
+  MediaKind,
+  MediaRelation,
+  MediaSource,
+  SessionData
+} from "@huangjz11/shared";
 import { normalizeCookiesForTwitterRequests } from "../auth/session-store.js";
-import { GraphqlMediaScraper } from "./graphql-media-scraper.js";
+import { isTweetIdAfter, isTweetIdBefore } from "../utils/tweet-id.js";
+import type { RateLimitWaitListener } from "./rate-limiter.js";
+
+// Raised by an engine chain: "served" once an engine delivers the target,
+// "fallback" when one fails and the next engine in the chain takes over.
+export type EngineReport =
+  | { type: "served"; engine: string }
+  | { type: "fallback"; engine: string; next: string; error: string };
+
+// The timeline's own entries on one page that fell inside the requested
+// range, with or without media. Retweeted and quoted media carry the original
+// tweet's ID, so a sync cursor has to follow these instead.
+export interface TimelinePageReport {
+  tweetIds: string[];
+}
+
+// How a timeline walk stopped: "complete" once it reached sinceTweetId or the
+// end of the timeline, "truncated" when maxTweets or the page cap ended it
+// with older tweets left unread.
+export type TimelineWalkEnd = "complete" | "truncated";
 
 export interface FetchUserMediaInput {
   username: string;
   maxTweets?: number;
   mediaKinds: MediaKind[];
+  sinceTweetId?: string;
+  untilTweetId?: string;
+  include?: ContentInclusion;
+  signal?: AbortSignal;
+  // Throw an account limit error rather than waiting out a rate limit, for
+  // callers with another session to switch to.
+  failOnAccountLimit?: boolean;
+  onEngine?: (report: EngineReport) => void;
+  // Called for each page before its media are yielded.
+  onTimelinePage?: (page: TimelinePageReport) => void;
+  // Called once when pagination stops without an error. Engines that cannot
+  // tell whether older tweets are left never call it.
+  onTimelineEnd?: (end: TimelineWalkEnd) => void;
+  // Reports a fetch that finished but may be incomplete, such as pagination
+  // stopped by the page cap.
+  onWarning?: (message: string) => void;
+  // Told about every rate limit wait this call sits through.
+  onRateLimitWait?: RateLimitWaitListener;
+}
+
+export interface FetchTweetMediaInput {
+  tweetId: string;
+  mediaKinds: MediaKind[];
+  signal?: AbortSignal;
+  failOnAccountLimit?: boolean;
+  onEngine?: (report: EngineReport) => void;
+  onRateLimitWait?: RateLimitWaitListener;
+}
+
+export interface FetchSourceMediaInput {
+  source: MediaSource;
+  maxTweets?: number;
+  mediaKinds: MediaKind[];
+  signal?: AbortSignal;
+  failOnAccountLimit?: boolean;
+  onEngine?: (report: EngineReport) => void;
+  onWarning?: (message: string) => void;
+  onRateLimitWait?: RateLimitWaitListener;
 }
 
 export interface MediaScraper {
   initialize(session: SessionData): Promise<void>;
   fetchUserMedia(input: FetchUserMediaInput): Promise<MediaItem[]>;
+  // Same media as fetchUserMedia, delivered page by page as the timeline is
+  // read so downloads can start before pagination ends.
+  fetchUserMediaPages?(input: FetchUserMediaInput): AsyncIterable<MediaItem[]>;
+  fetchTweetMedia?(input: FetchTweetMediaInput): Promise<MediaItem[]>;
+  fetchSourceMedia?(input: FetchSourceMediaInput): Promise<MediaItem[]>;
+  // Called with the session's full cookie list whenever the scraper renews a
+  // cookie mid-run (ct0 after a CSRF refresh), so the caller can save it.
+  // Replaces any earlier listener.
+  onCookiesUpdated?(listener: (cookies: string[]) => void): void;
   close?(): Promise<void>;
 }
 
-export interface CreateMediaScraperInput {
-  engine?: ScraperEngine;
-}
-
 interface DomMediaCandidate {
   id: string;
   tweetId: string;
@@ -26,6 +95,8 @@ interface DomMediaCandidate {
   kind: "image" | "video" | "gif";
   url: string;
   createdAt?: string;
+  relation: MediaRelation;
+  author?: string;
 }
 
 function normalizeUsername(input: string): string {
@@ -125,10 +196,11 @@ function parseCookieString(cookie: string): Array<{
 async function extractMediaFromPage(
   page: Page,
   maxTweets: number,
-  targetUsername: string
+  targetUsername: string,
+  include: ContentInclusion
 ): Promise<DomMediaCandidate[]> {
   const extracted = await page.evaluate(
-    ({ limit, target }) => {
+    ({ limit, target, retweets, quotes, replies }) => {
       const articles = Array.from(document.querySelectorAll('article[data-testid="tweet"]'));
       const candidates: Array<{
         id: string;
@@ -137,6 +209,8 @@ async function extractMediaFromPage(
         kind: "image" | "video" | "gif";
         url: string;
         createdAt?: string;
+        relation: "original" | "retweet" | "quote" | "reply";
+        author?: string;
       }> = [];
 
       const seenTweetIds = new Set<string>();
@@ -154,6 +228,24 @@ async function extractMediaFromPage(
         };
       };
 
+      // Accounts named in the "Replying to" line of the article's own tweet,
+      // or null when it is not a reply. Quoted tweets sit in a role="link"
+      // box and carry their own line, which is not the article's.
+      const readReplyTargets = (article: Element): string[] | null => {
+        const context = Array.from(article.querySelectorAll("div")).find(
+          (element) =>
+            /^(Replying to|回复)\s*@/.test(element.textContent?.trim() ?? "") &&
+            !element.closest('div[role="link"]')
+        );
+        if (!context) {
+          return null;
+        }
+
+        return Array.from(context.querySelectorAll('a[href^="/"]'))
+          .map((anchor) => (anchor.getAttribute("href") ?? "").replace(/^\//, "").toLowerCase())
+          .filter((handle) => handle.length > 0 && !handle.includes("/"));
+      };
+
       const normalizeImageUrl = (raw: string): string => {
         try {
           const parsed = new URL(raw, window.location.origin);
@@ -176,11 +268,11 @@ async function extractMediaFromPage(
       for (const article of articles) {
         const socialContextText =
           article.querySelector('div[data-testid="socialContext"]')?.textContent?.toLowerCase() ?? "";
-        if (
+        const isRepost =
           socialContextText.includes("retweeted") ||
           socialContextText.includes("reposted") ||
-          socialContextText.includes("转推")
-        ) {
+          socialContextText.includes("转推");
+        if (isRepost && !retweets) {
           continue;
         }
 
@@ -196,18 +288,55 @@ async function extractMediaFromPage(
           continue;
         }
 
+        // A repost's primary status link points at the original author.
         const primary = statusMatches[0];
-        if (primary.username !== targetUser) {
+        if (!isRepost && primary.username !== targetUser) {
+          continue;
+        }
+
+        // Like the API mappers, only replies within the user's own threads
+        // count, and only when replies were asked for.
+        const replyTargets = isRepost ? null : readReplyTargets(article);
+        if (
+          replyTargets &&
+          (!replies || replyTargets.length === 0 || replyTargets.some((handle) => handle !== targetUser))
+        ) {
           continue;
         }
 
-        const hasForeignStatus = statusMatches.some((item) => item.username !== targetUser);
-        if (hasForeignStatus) {
+        const hasForeignStatus = statusMatches.some((item) => item.username !== primary.username);
+        if (hasForeignStatus && !quotes) {
           continue;
         }
 
-        const username = primary.username;
+        const username = targetUser;
         const tweetId = primary.tweetId;
+        const primaryRelation: "original" | "retweet" | "reply" = isRepost
+          ? "retweet"
+          : replyTargets
+            ? "reply"
+            : "original";
+        const primaryAuthor = isRepost ? primary.username : undefined;
+        const mediaIndexes = new Map<string, number>();
+        const resolveOwner = (element: Element) => {
+          const closestStatusLink = element.closest('a[href*="/status/"]');
+          const closestMatch = closestStatusLink
+            ? parseStatusHref(closestStatusLink.getAttribute("href") ?? "")
+            : null;
+          if (!closestMatch || closestMatch.username === primary.username) {
+            return { tweetId, relation: primaryRelation, author: primaryAuthor };
+          }
+
+          return quotes
+            ? { tweetId: closestMatch.tweetId, relation: "quote" as const, author: closestMatch.username }
+            : null;
+        };
+        const nextIndex = (ownerTweetId: string, kind: string): number => {
+          const key = `${ownerTweetId}:${kind}`;
+          const value = mediaIndexes.get(key) ?? 0;
+          mediaIndexes.set(key, value + 1);
+          return value;
+        };
         if (!seenTweetIds.has(tweetId)) {
           seenTweetIds.add(tweetId);
         }
@@ -219,14 +348,10 @@ async function extractMediaFromPage(
         const createdAt = article.querySelector("time")?.getAttribute("datetime") ?? undefined;
 
         const imageElements = Array.from(article.querySelectorAll('img[src]'));
-        let imageIndex = 0;
         for (const imageElement of imageElements) {
-          const closestStatusLink = imageElement.closest('a[href*="/status/"]');
-          if (closestStatusLink) {
-            const closestMatch = parseStatusHref(closestStatusLink.getAttribute("href") ?? "");
-            if (closestMatch && closestMatch.username !== targetUser) {
-              continue;
-            }
+          const owner = resolveOwner(imageElement);
+          if (!owner) {
+            continue;
           }
 
           const src = imageElement.getAttribute("src") ?? "";
@@ -241,25 +366,22 @@ async function extractMediaFromPage(
           const normalizedSrc = normalizeImageUrl(src);
 
           candidates.push({
-            id: `${tweetId}_img_${imageIndex}`,
-            tweetId,
+            id: `${owner.tweetId}_img_${nextIndex(owner.tweetId, "img")}`,
+            tweetId: owner.tweetId,
             username,
             kind: "image",
             url: normalizedSrc,
-            createdAt
+            createdAt,
+            relation: owner.relation,
+            author: owner.author
           });
-          imageIndex += 1;
         }
 
         const videoElements = Array.from(article.querySelectorAll('video[src], video source[src]'));
-        let videoIndex = 0;
         for (const videoElement of videoElements) {
-          const closestStatusLink = videoElement.closest('a[href*="/status/"]');
-          if (closestStatusLink) {
-            const closestMatch = parseStatusHref(closestStatusLink.getAttribute("href") ?? "");
-            if (closestMatch && closestMatch.username !== targetUser) {
-              continue;
-            }
+          const owner = resolveOwner(videoElement);
+          if (!owner) {
+            continue;
           }
 
           const src = videoElement.getAttribute("src") ?? "";
@@ -275,29 +397,35 @@ async function extractMediaFromPage(
             src.includes("/tweet_video/") || src.endsWith(".gif") ? "gif" : "video";
 
           candidates.push({
-            id: `${tweetId}_video_${videoIndex}`,
-            tweetId,
+            id: `${owner.tweetId}_video_${nextIndex(owner.tweetId, "video")}`,
+            tweetId: owner.tweetId,
             username,
             kind,
             url: src,
-            createdAt
+            createdAt,
+            relation: owner.relation,
+            author: owner.author
           });
-          videoIndex += 1;
         }
       }
 
       return candidates;
     },
-    { limit: maxTweets, target: normalizeUsername(targetUsername) }
+    {
+      limit: maxTweets,
+      target: normalizeUsername(targetUsername),
+      retweets: include.retweets === true,
+      quotes: include.quotes === true,
+      replies: include.replies === true
+    }
   );
 
   return extracted;
 }
 
-class PlaywrightMediaScraper implements MediaScraper {
+export class PlaywrightMediaScraper implements MediaScraper {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
-  private page: Page | null = null;
   private initialized = false;
 
   async initialize(session: SessionData): Promise<void> {
@@ -317,8 +445,6 @@ class PlaywrightMediaScraper implements MediaScraper {
       }
     }
 
-    this.page = await this.context.newPage();
-    this.page.setDefaultTimeout(30_000);
     this.initialized = true;
 
     process.once("exit", () => {
@@ -329,44 +455,60 @@ class PlaywrightMediaScraper implements MediaScraper {
   private async collectFromUrl(
     url: string,
     maxTweets: number,
-    username: string
+    username: string,
+    include: ContentInclusion,
+    signal?: AbortSignal
   ): Promise<DomMediaCandidate[]> {
-    if (!this.page) {
-      throw new Error("Playwright page is not initialized.");
+    if (!this.context) {
+      throw new Error("Playwright context is not initialized.");
     }
 
-    await this.page.goto(url, { waitUntil: "domcontentloaded" });
-    await this.page.waitForTimeout(1500);
+    signal?.throwIfAborted();
+    // One tab per collection, so users scraped side by side do not navigate
+    // each other's page.
+    const page: Page = await this.context.newPage();
+    page.setDefaultTimeout(30_000);
 
-    const collected = new Map<string, DomMediaCandidate>();
-    let unchangedRounds = 0;
+    try {
+      await page.goto(url, { waitUntil: "domcontentloaded" });
+      await page.waitForTimeout(1500);
 
-    for (let round = 0; round < 14; round += 1) {
-      const before = collected.size;
-      const batch = await extractMediaFromPage(this.page, maxTweets, username);
+      const collected = new Map<string, DomMediaCandidate>();
+      let unchangedRounds = 0;
 
-      for (const item of batch) {
-        const key = `${item.tweetId}:${item.kind}:${item.url}`;
-        collected.set(key, item);
-      }
+      for (let round = 0; round < 14; round += 1) {
+        signal?.throwIfAborted();
+        const before = collected.size;
+        const batch = await extractMediaFromPage(page, maxTweets, username, include);
 
-      if (collected.size === before) {
-        unchangedRounds += 1;
-      } else {
-        unchangedRounds = 0;
-      }
+        for (const item of batch) {
+          const key = `${item.tweetId}:${item.kind}:${item.url}`;
+          collected.set(key, item);
+        }
 
-      if (unchangedRounds >= 3) {
-        break;
+        if (collected.size === before) {
+          unchangedRounds += 1;
+        } else {
+          unchangedRounds = 0;
+        }
+
+        if (unchangedRounds >= 3) {
+          break;
+        }
+
+        await page.evaluate(() => {
+          window.scrollBy(0, window.innerHeight * 2.5);
+        });
+        await page.waitForTimeout(900);
       }
 
-      await this.page.evaluate(() => {
-        window.scrollBy(0, window.innerHeight * 2.5);
-      });
-      await this.page.waitForTimeout(900);
+      return Array.from(collected.values());
+    } finally {
+      try {
+        await page.close();
+      } catch {
+      }
     }
-
-    return Array.from(collected.values());
   }
 
   async fetchUserMedia(input: FetchUserMediaInput): Promise<MediaItem[]> {
@@ -377,9 +519,16 @@ class PlaywrightMediaScraper implements MediaScraper {
     const username = normalizeUsername(input.username);
     const maxTweets = input.maxTweets ?? 200;
     const allowedKinds = new Set(input.mediaKinds);
+    const include = input.include ?? {};
 
+    // The media tab never shows reposts or quoted media, so opt-in content is
+    // read from the main profile timeline first.
     const query = encodeURIComponent(`from:${username} filter:media -filter:retweets`);
+    const timelineSuffix = include.replies ? "/with_replies" : "";
     const urls = [
+      ...(include.retweets || include.quotes || include.replies
+        ? [`https://x.com/${username}${timelineSuffix}`]
+        : []),
       `https://x.com/${username}/media`,
       `https://twitter.com/${username}/media`,
       `https://x.com/search?q=${query}&src=typed_query&f=live`,
@@ -389,23 +538,37 @@ class PlaywrightMediaScraper implements MediaScraper {
     const errors: string[] = [];
     for (const url of urls) {
       try {
-        const candidates = await this.collectFromUrl(url, maxTweets, username);
+        const candidates = await this.collectFromUrl(url, maxTweets, username, include, input.signal);
         if (candidates.length === 0) {
           continue;
         }
 
-        const mediaItems: MediaItem[] = candidates.map((candidate) => ({
-          id: candidate.id,
-          tweetId: candidate.tweetId,
-          username: candidate.username || username,
-          kind: candidate.kind,
-          url: candidate.url,
-          createdAt: candidate.createdAt,
-          filenameHint: candidate.id
-        }));
-
-        return dedupeMedia(mediaItems).filter((item) => allowedKinds.has(item.kind));
+        const positions = new Map<string, number>();
+        const mediaItems: MediaItem[] = candidates.map((candidate) => {
+          const index = (positions.get(candidate.tweetId) ?? 0) + 1;
+          positions.set(candidate.tweetId, index);
+          return {
+            id: candidate.id,
+            tweetId: candidate.tweetId,
+            username: candidate.username || username,
+            kind: candidate.kind,
+            url: candidate.url,
+            createdAt: candidate.createdAt,
+            filenameHint: candidate.id,
+            index,
+            relation: candidate.relation,
+            author: candidate.author
+          };
+        });
+
+        return dedupeMedia(mediaItems).filter(
+          (item) =>
+            allowedKinds.has(item.kind) &&
+            isTweetIdAfter(item.tweetId, input.sinceTweetId) &&
+            isTweetIdBefore(item.tweetId, input.untilTweetId)
+        );
       } catch (error) {
+        input.signal?.throwIfAborted();
         const message = error instanceof Error ? error.message : String(error);
         errors.push(`${url} -> ${message}`);
       }
@@ -417,10 +580,8 @@ class PlaywrightMediaScraper implements MediaScraper {
 
   private async dispose(): Promise<void> {
     try {
-      await this.page?.close();
       await this.context?.close();
       await this.browser?.close();
-      this.page = null;
       this.context = null;
       this.browser = null;
       this.initialized = false;
@@ -432,13 +593,3 @@ class PlaywrightMediaScraper implements MediaScraper {
     await this.dispose();
   }
 }
-
-export function createMediaScraper(input: CreateMediaScraperInput = {}): MediaScraper {
-  const engine = input.engine ?? "graphql";
-
-  if (engine === "graphql") {
-    return new GraphqlMediaScraper();
-  }
-
-  return new PlaywrightMediaScraper();
-}
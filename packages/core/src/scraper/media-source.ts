@@ -0,0 +1,35 @@
+import type { MediaSource } from "@huangjz11/shared";
+
+export function describeMediaSource(source: MediaSource): string {
+  switch (source.type) {
+    case "search":
+      return `search "${source.query}"`;
+    case "likes":
+      return `likes of @${source.username}`;
+    case "bookmarks":
+      return "bookmarks";
+    case "list":
+      return `list ${source.listId}`;
+    default: {
+      const unreachable: never = source;
+      throw new Error(`Unknown media source: ${JSON.stringify(unreachable)}`);
+    }
+  }
+}
+
+export function getMediaSourceDirectory(source: MediaSource): string {
+  switch (source.type) {
+    case "search":
+      return `search-${source.query.trim()}`;
+    case "likes":
+      return `likes-${source.username.replace(/^@/, "").trim()}`;
+    case "bookmarks":
+      return "bookmarks";
+    case "list":
+      return `list-${source.listId}`;
+    default: {
+      const unreachable: never = source;
+      throw new Error(`Unknown media source: ${JSON.stringify(unreachable)}`);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { sleep } from "../utils/time.js";
+
+export interface RateLimitWait {
+  endpoint: string;
+  waitMs: number;
+  resetAt: string;
+}
+
+export type RateLimitWaitListener = (wait: RateLimitWait) => void;
+
+// Budget an endpoint reported in its x-rate-limit-* headers.
+export interface RateLimitBudget {
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+}
+
+export type SessionHealthStatus = "active" | "expired" | "locked" | "suspended" | "rate_limited";
+
+// What X itself says about the session, as opposed to the cookie check.
+export interface SessionHealth {
+  status: SessionHealthStatus;
+  screenName?: string;
+  userId?: string;
+  detail?: string;
+  rateLimit?: RateLimitBudget;
+}
+
+export interface AcquireRateLimitOptions {
+  // Account the budget belongs to; X counts each session separately.
+  scope?: string;
+  // Throw an account limit error instead of sleeping through a spent budget,
+  // for callers that have another account to switch to.
+  failFast?: boolean;
+  // Told about each wait before it starts, so the caller can report it.
+  onWait?: RateLimitWaitListener;
+}
+
+export type AccountLimitReason = "rate_limit" | "auth";
+
+// Raised when the session itself cannot go on, as opposed to a single
+// request failing; the batch job answers it by switching accounts.
+export interface AccountLimitError extends Error {
+  code: "ERR_ACCOUNT_LIMIT";
+  reason: AccountLimitReason;
+  retryAtMs?: number;
+}
+
+interface EndpointBudget {
+  remaining: number;
+  resetAtMs: number;
+}
+
+// X uses 15 minute windows; anything longer is treated as a bad header.
+const MAX_RATE_LIMIT_WAIT_MS = 15 * 60 * 1000;
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60 * 1000;
+const RATE_LIMIT_RESET_MARGIN_MS = 1000;
+
+// Shared by every scraper in the process and keyed by account scope, since
+// the budget belongs to the account rather than to a single client.
+const budgets = new Map<string, EndpointBudget>();
+
+function parseHeaderNumber(headers: Headers, name: string): number | undefined {
+  const raw = headers.get(name);
+  if (raw === null || raw.trim() === "") {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function getBudgetKey(endpoint: string, scope?: string): string {
+  return scope ? `${scope}:${endpoint}` : endpoint;
+}
+
+export function createAccountLimitError(
+  reason: AccountLimitReason,
+  message: string,
+  retryAtMs?: number
+): AccountLimitError {
+  const error = new Error(message) as AccountLimitError;
+  error.code = "ERR_ACCOUNT_LIMIT";
+  error.reason = reason;
+  error.retryAtMs = retryAtMs;
+  return error;
+}
+
+export function readAccountLimit(error: unknown): AccountLimitError | undefined {
+  return error instanceof Error && (error as Partial<AccountLimitError>).code === "ERR_ACCOUNT_LIMIT"
+    ? (error as AccountLimitError)
+    : undefined;
+}
+
+export function readRateLimitBudget(headers: Headers): RateLimitBudget | undefined {
+  const limit = parseHeaderNumber(headers, "x-rate-limit-limit");
+  const remaining = parseHeaderNumber(headers, "x-rate-limit-remaining");
+  const resetSeconds = parseHeaderNumber(headers, "x-rate-limit-reset");
+  if (limit === undefined && remaining === undefined && resetSeconds === undefined) {
+    return undefined;
+  }
+
+  return {
+    limit,
+    remaining,
+    resetAt: resetSeconds !== undefined ? new Date(resetSeconds * 1000).toISOString() : undefined
+  };
+}
+
+function clampWaitMs(waitMs: number): number {
+  return Math.min(Math.max(waitMs, 0), MAX_RATE_LIMIT_WAIT_MS);
+}
+
+// Sleeps until the endpoint's window resets when its budget is spent, then
+// takes one request from the budget so concurrent callers do not overshoot.
+export async function acquireRateLimit(
+  endpoint: string,
+  signal?: AbortSignal,
+  options: AcquireRateLimitOptions = {}
+): Promise<void> {
+  const key = getBudgetKey(endpoint, options.scope);
+  while (true) {
+    const budget = budgets.get(key);
+    if (!budget) {
+      return;
+    }
+
+    const now = Date.now();
+    if (budget.resetAtMs <= now) {
+      budgets.delete(key);
+      return;
+    }
+
+    if (budget.remaining > 0) {
+      budget.remaining -= 1;
+      return;
+    }
+
+    if (options.failFast) {
+      throw createAccountLimitError(
+        "rate_limit",
+        `Rate limit reached for ${endpoint} until ${new Date(budget.resetAtMs).toISOString()}.`,
+        budget.resetAtMs
+      );
+    }
+
+    const waitMs = clampWaitMs(budget.resetAtMs - now + RATE_LIMIT_RESET_MARGIN_MS);
+    options.onWait?.({
+      endpoint,
+      waitMs,
+      resetAt: new Date(now + waitMs).toISOString()
+    });
+
+    await sleep(waitMs, signal);
+    signal?.throwIfAborted();
+    if (budgets.get(key) === budget) {
+      budgets.delete(key);
+    }
+  }
+}
+
+// Returns true when the response was a 429, so the caller can retry after
+// the next acquireRateLimit call has waited out the window.
+export function recordRateLimit(endpoint: string, response: Response, scope?: string): boolean {
+  const limited = response.status === 429;
+  const remaining = parseHeaderNumber(response.headers, "x-rate-limit-remaining");
+  const resetSeconds = parseHeaderNumber(response.headers, "x-rate-limit-reset");
+
+  if (remaining === undefined && !limited) {
+    return false;
+  }
+
+  const now = Date.now();
+  let resetAtMs = resetSeconds !== undefined ? resetSeconds * 1000 : Number.NaN;
+  if (limited && !(resetAtMs > now)) {
+    const retryAfterSeconds = parseHeaderNumber(response.headers, "retry-after");
+    resetAtMs =
+      now + (retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : DEFAULT_RATE_LIMIT_WAIT_MS);
+  }
+
+  if (!(resetAtMs > now)) {
+    return limited;
+  }
+
+  budgets.set(getBudgetKey(endpoint, scope), {
+    remaining: limited ? 0 : Math.max(0, remaining ?? 0),
+    resetAtMs: Math.min(resetAtMs, now + MAX_RATE_LIMIT_WAIT_MS)
+  });
+  return limited;
+}
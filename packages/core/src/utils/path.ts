@@ -1,4 +1,4 @@
-import { extname } from "node:path";
+import { extname, join } from "node:path";
 import type { MediaItem } from "@huangjz11/shared";
 
 const WINDOWS_FORBIDDEN = /[<>:"/\\|?*\u0000-\u001F]/g;
@@ -38,6 +38,134 @@ function defaultExtension(kind: MediaItem["kind"]): string {
   return "mp4";
 }
 
+export const DEFAULT_FILENAME_TEMPLATE = "{folder}/{tweetId}_{mediaId}.{ext}";
+
+const TEMPLATE_FIELD_PATTERN = /\{([A-Za-z]+)\}/g;
+const TEMPLATE_FIELDS = new Set([
+  "folder",
+  "username",
+  "tweetId",
+  "mediaId",
+  "index",
+  "kind",
+  "ext",
+  "hint",
+  "relation",
+  "author",
+  "date",
+  "yyyy",
+  "MM",
+  "dd",
+  "HH",
+  "mm",
+  "ss"
+]);
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function parseCreatedAt(createdAt: string | undefined): Date | undefined {
+  if (!createdAt) {
+    return undefined;
+  }
+
+  const parsed = new Date(createdAt);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+function buildTemplateValues(item: MediaItem, folder: string): Record<string, string> {
+  const ext = extensionFromUrl(item.url) ?? defaultExtension(item.kind);
+  const created = parseCreatedAt(item.createdAt);
+  const yyyy = created ? String(created.getUTCFullYear()) : "unknown";
+  const MM = created ? pad2(created.getUTCMonth() + 1) : "unknown";
+  const dd = created ? pad2(created.getUTCDate()) : "unknown";
+
+  return {
+    folder,
+    username: item.username,
+    tweetId: item.tweetId,
+    mediaId: item.id,
+    index: String(item.index ?? 1),
+    kind: item.kind,
+    ext,
+    hint: item.filenameHint ?? item.id,
+    relation: item.relation ?? "original",
+    author: item.author ?? item.username,
+    date: created ? `${yyyy}-${MM}-${dd}` : "unknown",
+    yyyy,
+    MM,
+    dd,
+    HH: created ? pad2(created.getUTCHours()) : "unknown",
+    mm: created ? pad2(created.getUTCMinutes()) : "unknown",
+    ss: created ? pad2(created.getUTCSeconds()) : "unknown"
+  };
+}
+
+function sanitizeTemplateSegment(input: string): string {
+  const sanitized = sanitizePathPart(input);
+  // "." and ".." would let a template escape the output directory.
+  return /^\.+$/.test(sanitized) ? sanitized.replace(/\./g, "_") : sanitized;
+}
+
+function splitTemplate(template: string): string[] {
+  return template.split(/[\\/]+/).filter(Boolean);
+}
+
+export function validateFilenameTemplate(template: string): void {
+  if (splitTemplate(template).length === 0) {
+    throw new Error("Filename template cannot be empty.");
+  }
+
+  const unknown = Array.from(template.matchAll(TEMPLATE_FIELD_PATTERN))
+    .map((match) => match[1])
+    .filter((field) => !TEMPLATE_FIELDS.has(field));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown filename template field(s): ${unknown.map((field) => `{${field}}`).join(", ")}`);
+  }
+}
+
+// Renders a template into a path relative to the output directory. Each
+// segment is sanitised on its own, so "/" in the template creates folders
+// while "/" inside a field value never does.
+export function renderMediaPath(
+  item: MediaItem,
+  folder: string,
+  template: string = DEFAULT_FILENAME_TEMPLATE
+): string {
+  const rawSegments = splitTemplate(template);
+  if (rawSegments.length === 0) {
+    return join(sanitizePathPart(folder), buildMediaFilename(item));
+  }
+
+  const values = buildTemplateValues(item, folder);
+  const segments = rawSegments.map((segment) =>
+    sanitizeTemplateSegment(
+      segment.replace(TEMPLATE_FIELD_PATTERN, (match, field: string) => values[field] ?? match)
+    )
+  );
+
+  const last = segments.length - 1;
+  if (!rawSegments[last].includes("{ext}")) {
+    segments[last] = `${segments[last]}.${values.ext}`;
+  }
+
+  return join(...segments);
+}
+
+// Whether every media renders to its own path under the template, so a file
+// already at that path can only be an earlier copy of the same media.
+export function isMediaSpecificTemplate(template: string = DEFAULT_FILENAME_TEMPLATE): boolean {
+  return template.includes("{mediaId}") || (template.includes("{tweetId}") && template.includes("{index}"));
+}
+
+// Inserts a numeric suffix before the extension: "a/b.jpg" -> "a/b_2.jpg".
+export function withCollisionSuffix(relativePath: string, attempt: number): string {
+  const ext = extname(relativePath);
+  const base = ext ? relativePath.slice(0, -ext.length) : relativePath;
+  return `${base}_${attempt}${ext}`;
+}
+
 export function buildMediaFilename(item: MediaItem): string {
   const ext = extensionFromUrl(item.url) ?? defaultExtension(item.kind);
   const tweetId = sanitizePathPart(item.tweetId);
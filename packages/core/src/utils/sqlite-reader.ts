@@ -0,0 +1,334 @@
+import { readFile } from "node:fs/promises";
+
+export type SqliteValue = null | number | string | Buffer;
+
+export type SqliteRow = Record<string, SqliteValue>;
+
+interface SqliteDatabase {
+  data: Buffer;
+  pageSize: number;
+  usableSize: number;
+  // Pages committed to the write-ahead log but not yet checkpointed.
+  walPages: Map<number, Buffer>;
+}
+
+const SQLITE_HEADER = "SQLite format 3\u0000";
+const SQLITE_HEADER_SIZE = 100;
+const WAL_HEADER_SIZE = 32;
+const WAL_FRAME_HEADER_SIZE = 24;
+const WAL_MAGIC_LITTLE_ENDIAN = 0x377f0682;
+const WAL_MAGIC_BIG_ENDIAN = 0x377f0683;
+const PAGE_TYPE_TABLE_INTERIOR = 0x05;
+const PAGE_TYPE_TABLE_LEAF = 0x0d;
+const UTF8_ENCODING = 1;
+
+function readVarint(buffer: Buffer, offset: number): { value: number; length: number } {
+  let value = 0n;
+  for (let index = 0; index < 8; index += 1) {
+    const byte = buffer[offset + index];
+    value = (value << 7n) | BigInt(byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      return { value: Number(value), length: index + 1 };
+    }
+  }
+
+  value = (value << 8n) | BigInt(buffer[offset + 8]);
+  return { value: Number(BigInt.asIntN(64, value)), length: 9 };
+}
+
+function walChecksum(
+  buffer: Buffer,
+  littleEndian: boolean,
+  seed: [number, number]
+): [number, number] {
+  let [s0, s1] = seed;
+  for (let offset = 0; offset + 8 <= buffer.length; offset += 8) {
+    const x0 = littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+    const x1 = littleEndian ? buffer.readUInt32LE(offset + 4) : buffer.readUInt32BE(offset + 4);
+    s0 = (s0 + x0 + s1) >>> 0;
+    s1 = (s1 + x1 + s0) >>> 0;
+  }
+
+  return [s0, s1];
+}
+
+// Browsers keep their cookie databases in WAL mode while running, so recent
+// changes may only exist in the -wal file. Frames are applied up to the last
+// valid commit, the same view a new reader would get.
+async function readWalPages(path: string, pageSize: number): Promise<Map<number, Buffer>> {
+  const pages = new Map<number, Buffer>();
+  let wal: Buffer;
+  try {
+    wal = await readFile(`${path}-wal`);
+  } catch {
+    return pages;
+  }
+
+  if (wal.length < WAL_HEADER_SIZE) {
+    return pages;
+  }
+
+  const magic = wal.readUInt32BE(0);
+  if (magic !== WAL_MAGIC_LITTLE_ENDIAN && magic !== WAL_MAGIC_BIG_ENDIAN) {
+    return pages;
+  }
+
+  const littleEndian = magic === WAL_MAGIC_LITTLE_ENDIAN;
+  if (wal.readUInt32BE(8) !== pageSize) {
+    return pages;
+  }
+
+  const salt1 = wal.readUInt32BE(16);
+  const salt2 = wal.readUInt32BE(20);
+  let checksum = walChecksum(wal.subarray(0, 24), littleEndian, [0, 0]);
+  if (checksum[0] !== wal.readUInt32BE(24) || checksum[1] !== wal.readUInt32BE(28)) {
+    return pages;
+  }
+
+  const pending = new Map<number, Buffer>();
+  const frameSize = WAL_FRAME_HEADER_SIZE + pageSize;
+  for (let offset = WAL_HEADER_SIZE; offset + frameSize <= wal.length; offset += frameSize) {
+    const frameHeader = wal.subarray(offset, offset + WAL_FRAME_HEADER_SIZE);
+    if (frameHeader.readUInt32BE(8) !== salt1 || frameHeader.readUInt32BE(12) !== salt2) {
+      break;
+    }
+
+    const page = wal.subarray(offset + WAL_FRAME_HEADER_SIZE, offset + frameSize);
+    checksum = walChecksum(frameHeader.subarray(0, 8), littleEndian, checksum);
+    checksum = walChecksum(page, littleEndian, checksum);
+    if (checksum[0] !== frameHeader.readUInt32BE(16) || checksum[1] !== frameHeader.readUInt32BE(20)) {
+      break;
+    }
+
+    pending.set(frameHeader.readUInt32BE(0), page);
+    if (frameHeader.readUInt32BE(4) !== 0) {
+      for (const [pageNumber, data] of pending) {
+        pages.set(pageNumber, data);
+      }
+      pending.clear();
+    }
+  }
+
+  return pages;
+}
+
+async function openSqliteDatabase(path: string): Promise<SqliteDatabase> {
+  const data = await readFile(path);
+  if (data.length < SQLITE_HEADER_SIZE || data.toString("latin1", 0, 16) !== SQLITE_HEADER) {
+    throw new Error(`${path} is not a SQLite database.`);
+  }
+
+  const rawPageSize = data.readUInt16BE(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  if (data.readUInt32BE(56) !== UTF8_ENCODING) {
+    throw new Error(`${path} uses an unsupported text encoding.`);
+  }
+
+  return {
+    data,
+    pageSize,
+    usableSize: pageSize - data[20],
+    walPages: await readWalPages(path, pageSize)
+  };
+}
+
+function getPage(db: SqliteDatabase, pageNumber: number): Buffer {
+  const walPage = db.walPages.get(pageNumber);
+  if (walPage) {
+    return walPage;
+  }
+
+  const start = (pageNumber - 1) * db.pageSize;
+  if (pageNumber < 1 || start + db.pageSize > db.data.length) {
+    throw new Error(`SQLite page ${pageNumber} is out of range.`);
+  }
+
+  return db.data.subarray(start, start + db.pageSize);
+}
+
+function readCellPayload(db: SqliteDatabase, page: Buffer, offset: number, payloadSize: number): Buffer {
+  const maxLocal = db.usableSize - 35;
+  if (payloadSize <= maxLocal) {
+    return page.subarray(offset, offset + payloadSize);
+  }
+
+  const minLocal = Math.floor(((db.usableSize - 12) * 32) / 255) - 23;
+  const candidate = minLocal + ((payloadSize - minLocal) % (db.usableSize - 4));
+  const localSize = candidate <= maxLocal ? candidate : minLocal;
+
+  const parts: Buffer[] = [page.subarray(offset, offset + localSize)];
+  let remaining = payloadSize - localSize;
+  let overflowPage = page.readUInt32BE(offset + localSize);
+  while (remaining > 0 && overflowPage !== 0) {
+    const overflow = getPage(db, overflowPage);
+    const chunk = Math.min(remaining, db.usableSize - 4);
+    parts.push(overflow.subarray(4, 4 + chunk));
+    remaining -= chunk;
+    overflowPage = overflow.readUInt32BE(0);
+  }
+
+  return Buffer.concat(parts);
+}
+
+function decodeRecord(payload: Buffer): SqliteValue[] {
+  const header = readVarint(payload, 0);
+  const serialTypes: number[] = [];
+  let offset = header.length;
+  while (offset < header.value) {
+    const serialType = readVarint(payload, offset);
+    serialTypes.push(serialType.value);
+    offset += serialType.length;
+  }
+
+  const values: SqliteValue[] = [];
+  let bodyOffset = header.value;
+  for (const serialType of serialTypes) {
+    if (serialType === 0) {
+      values.push(null);
+    } else if (serialType >= 1 && serialType <= 6) {
+      const size = [1, 2, 3, 4, 6, 8][serialType - 1];
+      values.push(
+        size === 8
+          ? Number(payload.readBigInt64BE(bodyOffset))
+          : payload.readIntBE(bodyOffset, size)
+      );
+      bodyOffset += size;
+    } else if (serialType === 7) {
+      values.push(payload.readDoubleBE(bodyOffset));
+      bodyOffset += 8;
+    } else if (serialType === 8 || serialType === 9) {
+      values.push(serialType - 8);
+    } else if (serialType >= 12) {
+      const size = Math.floor((serialType - 12) / 2);
+      const bytes = payload.subarray(bodyOffset, bodyOffset + size);
+      values.push(serialType % 2 === 0 ? Buffer.from(bytes) : bytes.toString("utf8"));
+      bodyOffset += size;
+    } else {
+      throw new Error(`Unsupported SQLite serial type ${serialType}.`);
+    }
+  }
+
+  return values;
+}
+
+function readTableRecords(
+  db: SqliteDatabase,
+  rootPage: number
+): Array<{ rowid: number; values: SqliteValue[] }> {
+  const records: Array<{ rowid: number; values: SqliteValue[] }> = [];
+  const pending = [rootPage];
+  const visited = new Set<number>();
+
+  while (pending.length > 0) {
+    const pageNumber = pending.pop() ?? 0;
+    if (visited.has(pageNumber)) {
+      throw new Error(`SQLite page ${pageNumber} is referenced twice.`);
+    }
+    visited.add(pageNumber);
+
+    const page = getPage(db, pageNumber);
+    const headerOffset = pageNumber === 1 ? SQLITE_HEADER_SIZE : 0;
+    const pageType = page[headerOffset];
+    const cellCount = page.readUInt16BE(headerOffset + 3);
+
+    if (pageType === PAGE_TYPE_TABLE_INTERIOR) {
+      const cellPointers = headerOffset + 12;
+      // Pushed in reverse so rows come out in rowid order.
+      pending.push(page.readUInt32BE(headerOffset + 8));
+      for (let index = cellCount - 1; index >= 0; index -= 1) {
+        pending.push(page.readUInt32BE(page.readUInt16BE(cellPointers + index * 2)));
+      }
+      continue;
+    }
+
+    if (pageType !== PAGE_TYPE_TABLE_LEAF) {
+      throw new Error(`SQLite page ${pageNumber} is not a table page.`);
+    }
+
+    const cellPointers = headerOffset + 8;
+    for (let index = 0; index < cellCount; index += 1) {
+      let offset = page.readUInt16BE(cellPointers + index * 2);
+      const payloadSize = readVarint(page, offset);
+      offset += payloadSize.length;
+      const rowid = readVarint(page, offset);
+      offset += rowid.length;
+      records.push({
+        rowid: rowid.value,
+        values: decodeRecord(readCellPayload(db, page, offset, payloadSize.value))
+      });
+    }
+  }
+
+  return records;
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+    } else if (char === "," && depth === 0) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+// Column names in declaration order, plus the INTEGER PRIMARY KEY column that
+// SQLite stores as the rowid instead of in the record.
+function parseTableColumns(sql: string): { columns: string[]; rowidColumn?: string } {
+  const body = sql.slice(sql.indexOf("(") + 1, sql.lastIndexOf(")"));
+  const columns: string[] = [];
+  let rowidColumn: string | undefined;
+
+  for (const definition of splitTopLevel(body)) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(definition)) {
+      continue;
+    }
+
+    const match = /^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))\s*(.*)$/s.exec(definition);
+    if (!match) {
+      continue;
+    }
+
+    const name = match[1] ?? match[2] ?? match[3] ?? match[4];
+    columns.push(name);
+    if (/^integer\s+primary\s+key\b/i.test(match[5])) {
+      rowidColumn = name;
+    }
+  }
+
+  return { columns, rowidColumn };
+}
+
+// Reads every row of one table straight from the database file, without a
+// SQLite driver and without taking the browser's lock.
+export async function readSqliteTable(path: string, table: string): Promise<SqliteRow[]> {
+  const db = await openSqliteDatabase(path);
+
+  const schema = readTableRecords(db, 1).find(
+    ({ values }) =>
+      values[0] === "table" &&
+      typeof values[1] === "string" &&
+      values[1].toLowerCase() === table.toLowerCase()
+  );
+  if (!schema || typeof schema.values[3] !== "number" || typeof schema.values[4] !== "string") {
+    throw new Error(`Table ${table} was not found in ${path}.`);
+  }
+
+  const { columns, rowidColumn } = parseTableColumns(schema.values[4]);
+  return readTableRecords(db, schema.values[3]).map(({ rowid, values }) => {
+    const row: SqliteRow = {};
+    columns.forEach((column, index) => {
+      row[column] = column === rowidColumn ? rowid : values[index] ?? null;
+    });
+    return row;
+  });
+}
@@ -2,8 +2,35 @@ export function nowIso(): string {
   return new Date().toISOString();
 }
 
-export function sleep(ms: number): Promise<void> {
+// Resolves early instead of rejecting when the signal aborts, so callers in
+// retry loops check the signal afterwards rather than handling an error.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve) => {
-    setTimeout(resolve, ms);
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
 }
+
+// Accepts `YYYY-MM-DD` (midnight UTC) or any full ISO 8601 timestamp.
+export function parseDateBound(input: string): Date {
+  const trimmed = input.trim();
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed;
+  const parsed = new Date(normalized);
+  if (!trimmed || Number.isNaN(parsed.getTime())) {
+    throw new Error(`Invalid date: ${input}. Expected YYYY-MM-DD or an ISO 8601 timestamp.`);
+  }
+
+  return parsed;
+}
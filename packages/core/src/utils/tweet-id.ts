@@ -0,0 +1,105 @@
+const NUMERIC_ID = /^\d+$/;
+// Snowflake IDs carry their creation time in the bits above 22, counted in
+// milliseconds from this epoch, so a date maps straight onto an ID boundary.
+const SNOWFLAKE_EPOCH_MS = 1288834974657n;
+const SNOWFLAKE_TIMESTAMP_SHIFT = 22n;
+
+export function compareTweetIds(left: string, right: string): number {
+  const a = left.trim();
+  const b = right.trim();
+
+  if (NUMERIC_ID.test(a) && NUMERIC_ID.test(b)) {
+    const normalizedA = a.replace(/^0+(?=\d)/, "");
+    const normalizedB = b.replace(/^0+(?=\d)/, "");
+    if (normalizedA.length !== normalizedB.length) {
+      return normalizedA.length - normalizedB.length;
+    }
+
+    return normalizedA < normalizedB ? -1 : normalizedA > normalizedB ? 1 : 0;
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function isTweetIdAfter(tweetId: string, boundary: string | undefined): boolean {
+  if (!boundary) {
+    return true;
+  }
+
+  return compareTweetIds(tweetId, boundary) > 0;
+}
+
+export function isTweetIdBefore(tweetId: string, boundary: string | undefined): boolean {
+  if (!boundary) {
+    return true;
+  }
+
+  return compareTweetIds(tweetId, boundary) < 0;
+}
+
+// Returns the smallest tweet ID that can have been created at or after `date`.
+export function tweetIdFromDate(date: Date): string {
+  const offset = BigInt(date.getTime()) - SNOWFLAKE_EPOCH_MS;
+  if (offset <= 0n) {
+    return "0";
+  }
+
+  return (offset << SNOWFLAKE_TIMESTAMP_SHIFT).toString();
+}
+
+export function pickNewestTweetId(ids: Iterable<string | undefined>): string | undefined {
+  let newest: string | undefined;
+
+  for (const id of ids) {
+    if (!id) {
+      continue;
+    }
+
+    if (!newest || compareTweetIds(id, newest) > 0) {
+      newest = id;
+    }
+  }
+
+  return newest;
+}
+
+export function pickOldestTweetId(ids: Iterable<string | undefined>): string | undefined {
+  let oldest: string | undefined;
+
+  for (const id of ids) {
+    if (!id) {
+      continue;
+    }
+
+    if (!oldest || compareTweetIds(id, oldest) < 0) {
+      oldest = id;
+    }
+  }
+
+  return oldest;
+}
+
+export function parseTweetReference(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (NUMERIC_ID.test(trimmed)) {
+    return trimmed;
+  }
+
+  const candidate = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const parsed = new URL(candidate);
+    const host = parsed.hostname.toLowerCase().replace(/^(www|mobile)\./, "");
+    if (host !== "x.com" && host !== "twitter.com") {
+      return null;
+    }
+
+    const match = parsed.pathname.match(/\/status(?:es)?\/(\d+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
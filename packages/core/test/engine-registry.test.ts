@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { MediaItem, SessionData } from "@huangjz11/shared";
+import { createMediaScraper, registerScraperEngine } from "../src/scraper/engine-registry.js";
+import type { EngineReport, MediaScraper } from "../src/scraper/media-scraper.js";
+
+const ANONYMOUS: SessionData = { cookies: [], updatedAt: "2026-01-01T00:00:00.000Z", valid: true };
+
+function createMedia(tweetId: string): MediaItem {
+  return {
+    id: `m${tweetId}`,
+    tweetId,
+    username: "alice",
+    kind: "image",
+    url: `https://pbs.twimg.com/media/${tweetId}.jpg`
+  };
+}
+
+// Delivers `pages` in order and then fails if `failAfter` is set, like an
+// engine whose pagination breaks halfway.
+function createTestScraper(pages: MediaItem[][], failAfter?: string): MediaScraper {
+  return {
+    async initialize() {},
+    async fetchUserMedia() {
+      throw new Error("unused");
+    },
+    async *fetchUserMediaPages() {
+      yield* pages;
+      if (failAfter) {
+        throw new Error(failAfter);
+      }
+    }
+  };
+}
+
+registerScraperEngine({
+  name: "test-broken",
+  description: "fails after its first page",
+  capabilities: { tweets: false, sources: [], auth: "optional" },
+  create: () => createTestScraper([[createMedia("300")]], "timeline cursor rejected")
+});
+
+registerScraperEngine({
+  name: "test-steady",
+  description: "delivers the whole timeline",
+  capabilities: { tweets: false, sources: [], auth: "optional" },
+  create: () => createTestScraper([[createMedia("300"), createMedia("200")], [createMedia("100")]])
+});
+
+describe("createMediaScraper", () => {
+  test("refuses the default chain without login cookies", async () => {
+    const scraper = createMediaScraper();
+
+    await assert.rejects(scraper.initialize(ANONYMOUS), /graphql,v11 requires a login session/);
+  });
+
+  test("hands a broken timeline to the next engine and skips media already delivered", async () => {
+    const scraper = createMediaScraper({ engine: "test-broken,test-steady" });
+    await scraper.initialize(ANONYMOUS);
+    const reports: EngineReport[] = [];
+    const pages: string[][] = [];
+    for await (const page of scraper.fetchUserMediaPages?.({
+      username: "alice",
+      mediaKinds: ["image"],
+      onEngine: (report) => reports.push(report)
+    }) ?? []) {
+      pages.push(page.map((item) => item.tweetId));
+    }
+
+    assert.deepEqual(pages, [["300"], ["200"], ["100"]]);
+    assert.deepEqual(reports, [
+      { type: "served", engine: "test-broken" },
+      { type: "fallback", engine: "test-broken", next: "test-steady", error: "timeline cursor rejected" },
+      { type: "served", engine: "test-steady" }
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import type { ContentInclusion, SessionData } from "@huangjz11/shared";
+import { GraphqlMediaScraper } from "../src/scraper/graphql-media-scraper.js";
+
+const SESSION: SessionData = {
+  cookies: ["auth_token=token", "ct0=csrf"],
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  valid: true
+};
+
+const ALICE = { id_str: "42", screen_name: "alice" };
+
+function photo(tweetId: string): { extended_entities: { media: unknown[] } } {
+  return {
+    extended_entities: {
+      media: [{ type: "photo", id_str: `p${tweetId}`, media_url_https: `https://pbs.twimg.com/media/p${tweetId}.jpg` }]
+    }
+  };
+}
+
+// alice's timeline as statuses/user_timeline.json returns it, newest first.
+const TIMELINE = [
+  { id_str: "600", user: ALICE, ...photo("600") },
+  {
+    id_str: "500",
+    user: ALICE,
+    retweeted_status: { id_str: "450", user: { id_str: "7", screen_name: "Bob" }, ...photo("450") }
+  },
+  {
+    id_str: "400",
+    user: ALICE,
+    quoted_status: { id_str: "350", user: { id_str: "8", screen_name: "carol" }, ...photo("350") }
+  },
+  { id_str: "300", user: ALICE, in_reply_to_status_id_str: "600", in_reply_to_user_id_str: "42", ...photo("300") },
+  { id_str: "200", user: ALICE, in_reply_to_status_id_str: "150", in_reply_to_user_id_str: "7", ...photo("200") }
+];
+
+describe("GraphqlMediaScraper timeline", () => {
+  const originalFetch = globalThis.fetch;
+
+  before(() => {
+    globalThis.fetch = async (url) => {
+      const requested = new URL(String(url));
+      if (!requested.pathname.endsWith("statuses/user_timeline.json")) {
+        return new Response("", { status: 404 });
+      }
+
+      const body = requested.searchParams.has("max_id") ? [] : TIMELINE;
+      return new Response(JSON.stringify(body), { status: 200 });
+    };
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  async function collect(include: ContentInclusion): Promise<string[]> {
+    const scraper = new GraphqlMediaScraper("v11");
+    await scraper.initialize(SESSION);
+    const found: string[] = [];
+    for await (const page of scraper.fetchUserMediaPages({ username: "alice", mediaKinds: ["image"], include })) {
+      found.push(...page.map((item) => `${item.tweetId}:${item.relation}:${item.author ?? item.username}`));
+    }
+
+    return found;
+  }
+
+  test("keeps only alice's own tweets by default", async () => {
+    assert.deepEqual(await collect({}), ["600:original:alice"]);
+  });
+
+  test("adds retweets, quoted media and self-replies when included", async () => {
+    assert.deepEqual(await collect({ retweets: true, quotes: true, replies: true }), [
+      "600:original:alice",
+      "450:retweet:bob",
+      "350:quote:carol",
+      "300:reply:alice"
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import type { MediaItem } from "@huangjz11/shared";
+import { downloadMediaBatch } from "../src/downloader/media-downloader.js";
+
+const BODY = Buffer.from(Array.from({ length: 256 * 1024 }, (_, index) => index % 251));
+const RELATIVE_PATH = join("alice", "100_m1.mp4");
+
+// Stand-in for the media host. `/drop` cuts the connection halfway through
+// every full-body response; ranged requests are always answered in full.
+function handleRequest(request: IncomingMessage, response: ServerResponse): void {
+  const range = request.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+  if (range) {
+    const start = Number.parseInt(range[1], 10);
+    const end = range[2] ? Math.min(Number.parseInt(range[2], 10), BODY.length - 1) : BODY.length - 1;
+    if (start >= BODY.length) {
+      response.writeHead(416, { "content-range": `bytes */${BODY.length}` });
+      response.end();
+      return;
+    }
+
+    response.writeHead(206, {
+      "content-length": String(end + 1 - start),
+      "content-range": `bytes ${start}-${end}/${BODY.length}`
+    });
+    response.end(BODY.subarray(start, end + 1));
+    return;
+  }
+
+  response.writeHead(200, { "content-length": String(BODY.length) });
+  if (request.url?.startsWith("/drop")) {
+    response.write(BODY.subarray(0, BODY.length / 2), () => {
+      setTimeout(() => response.socket?.destroy(), 20);
+    });
+    return;
+  }
+
+  response.end(BODY);
+}
+
+describe("downloadMediaBatch", () => {
+  let server: Server;
+  let baseUrl: string;
+  let outputDir: string;
+  // Range header of every request the stand-in received, in order.
+  let ranges: Array<string | undefined>;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      ranges.push(request.headers.range);
+      handleRequest(request, response);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    ranges = [];
+    outputDir = await mkdtemp(join(tmpdir(), "twmd-download-"));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  function createItem(path: string): MediaItem {
+    return {
+      id: "m1",
+      tweetId: "100",
+      username: "alice",
+      kind: "video",
+      url: `${baseUrl}${path}`
+    };
+  }
+
+  async function writeExistingFile(suffix: string, bytes: Buffer): Promise<void> {
+    await mkdir(join(outputDir, "alice"), { recursive: true });
+    await writeFile(join(outputDir, `${RELATIVE_PATH}${suffix}`), bytes);
+  }
+
+  test("continues a dropped body with a Range request", async () => {
+    const result = await downloadMediaBatch({
+      items: [createItem("/drop/video.mp4")],
+      outputDir,
+      retryCount: 1
+    });
+
+    assert.equal(result.downloaded, 1);
+    // The resume offset is whatever reached the disk before the drop.
+    assert.equal(ranges.length, 2);
+    assert.equal(ranges[0], undefined);
+    const offset = Number(ranges[1]?.match(/^bytes=(\d+)-$/)?.[1]);
+    assert.ok(offset > 0 && offset <= BODY.length / 2);
+    assert.deepEqual(await readFile(join(outputDir, RELATIVE_PATH)), BODY);
+    await assert.rejects(readFile(join(outputDir, `${RELATIVE_PATH}.part`)), { code: "ENOENT" });
+  });
+
+  test("keeps the partial file and no target when every attempt is cut short", async () => {
+    const result = await downloadMediaBatch({
+      items: [createItem("/drop/video.mp4")],
+      outputDir,
+      retryCount: 0
+    });
+
+    assert.equal(result.failed, 1);
+    await assert.rejects(readFile(join(outputDir, RELATIVE_PATH)), { code: "ENOENT" });
+    const partial = await readFile(join(outputDir, `${RELATIVE_PATH}.part`));
+    assert.ok(partial.length > 0 && partial.length <= BODY.length / 2);
+    assert.deepEqual(partial, BODY.subarray(0, partial.length));
+  });
+
+  test("treats 416 for a complete partial file as finished", async () => {
+    await writeExistingFile(".part", BODY);
+    const result = await downloadMediaBatch({
+      items: [createItem("/video.mp4")],
+      outputDir,
+      retryCount: 0
+    });
+
+    assert.equal(result.downloaded, 1);
+    assert.deepEqual(ranges, [`bytes=${BODY.length}-`]);
+    assert.deepEqual(await readFile(join(outputDir, RELATIVE_PATH)), BODY);
+  });
+
+  test("starts over when 416 reports a different remote size", async () => {
+    await writeExistingFile(".part", Buffer.concat([BODY, Buffer.from("stale")]));
+    const result = await downloadMediaBatch({
+      items: [createItem("/video.mp4")],
+      outputDir,
+      retryCount: 1
+    });
+
+    assert.equal(result.downloaded, 1);
+    assert.deepEqual(ranges, [`bytes=${BODY.length + 5}-`, undefined]);
+    assert.deepEqual(await readFile(join(outputDir, RELATIVE_PATH)), BODY);
+  });
+
+  test("downloads an unrecorded file again when it is shorter than the remote body", async () => {
+    await writeExistingFile("", BODY.subarray(0, 1000));
+    const result = await downloadMediaBatch({
+      items: [createItem("/video.mp4")],
+      outputDir,
+      retryCount: 0
+    });
+
+    assert.equal(result.downloaded, 1);
+    assert.deepEqual(ranges, ["bytes=0-0", undefined]);
+    assert.deepEqual(await readFile(join(outputDir, RELATIVE_PATH)), BODY);
+  });
+
+  test("keeps an unrecorded file whose size matches the remote body", async () => {
+    await writeExistingFile("", BODY);
+    const result = await downloadMediaBatch({
+      items: [createItem("/video.mp4")],
+      outputDir,
+      retryCount: 0
+    });
+
+    assert.equal(result.skipped, 1);
+    assert.deepEqual(ranges, ["bytes=0-0"]);
+  });
+
+  test("leaves an unrelated file alone when the template does not name the media", async () => {
+    const unrelated = Buffer.from("another media");
+    await mkdir(join(outputDir, "alice"), { recursive: true });
+    await writeFile(join(outputDir, "alice", "100.mp4"), unrelated);
+    const result = await downloadMediaBatch({
+      items: [createItem("/video.mp4")],
+      outputDir,
+      retryCount: 0,
+      filenameTemplate: "{folder}/{tweetId}.{ext}"
+    });
+
+    assert.equal(result.downloaded, 1);
+    assert.deepEqual(await readFile(join(outputDir, "alice", "100.mp4")), unrelated);
+    assert.deepEqual(await readFile(join(outputDir, "alice", "100_2.mp4")), BODY);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import type { MediaItem } from "@huangjz11/shared";
+import { loadDownloadedMediaCache } from "../src/downloader/downloaded-media-cache.js";
+import { downloadMediaBatch } from "../src/downloader/media-downloader.js";
+import { verifyDownloadedMedia } from "../src/downloader/media-verifier.js";
+
+const BODY = Buffer.from(Array.from({ length: 64 * 1024 }, (_, index) => index % 251));
+const DAMAGED = BODY.subarray(0, 1024);
+
+describe("verifyDownloadedMedia", () => {
+  let server: Server;
+  let baseUrl: string;
+  let outputDir: string;
+  // While set, the stand-in media host answers every request with 404.
+  let offline: boolean;
+
+  before(async () => {
+    server = createServer((_request, response) => {
+      if (offline) {
+        response.writeHead(404);
+        response.end();
+        return;
+      }
+
+      response.writeHead(200, { "content-length": String(BODY.length) });
+      response.end(BODY);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    offline = false;
+    outputDir = await mkdtemp(join(tmpdir(), "twmd-verify-"));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  function createItem(id: string): MediaItem {
+    return {
+      id,
+      tweetId: "100",
+      username: "alice",
+      kind: "image",
+      url: `${baseUrl}/${id}.jpg`,
+      index: id === "m1" ? 0 : 1,
+      text: "two photos"
+    };
+  }
+
+  // Downloads both photos of tweet 100 and then damages the first one.
+  async function downloadAndDamage(): Promise<string> {
+    await downloadMediaBatch({
+      items: [createItem("m1"), createItem("m2")],
+      outputDir,
+      retryCount: 0,
+      writeMetadata: true
+    });
+    const cache = await loadDownloadedMediaCache(outputDir);
+    const record = Array.from(cache.records.values()).find((entry) => entry.item.id === "m1");
+    assert.ok(record);
+    const path = join(outputDir, record.path);
+    await writeFile(path, DAMAGED);
+    return path;
+  }
+
+  test("replaces a damaged file and rewrites its tweet's sidecar", async () => {
+    const path = await downloadAndDamage();
+    await writeFile(join(outputDir, "alice", "100.json"), "{}");
+
+    const result = await verifyDownloadedMedia({ outputDir, repair: true, retryCount: 0 });
+
+    assert.equal(result.mismatched, 1);
+    assert.deepEqual(
+      { total: result.repair?.total, downloaded: result.repair?.downloaded, skipped: result.repair?.skipped },
+      { total: 1, downloaded: 1, skipped: 0 }
+    );
+    assert.deepEqual(await readFile(path), BODY);
+    const sidecar = JSON.parse(await readFile(join(outputDir, "alice", "100.json"), "utf8")) as {
+      text?: string;
+      media: Array<{ id: string }>;
+    };
+    assert.equal(sidecar.text, "two photos");
+    assert.deepEqual(sidecar.media.map((entry) => entry.id), ["m1", "m2"]);
+  });
+
+  test("keeps the damaged file and its record when the download fails", async () => {
+    const path = await downloadAndDamage();
+    offline = true;
+
+    const result = await verifyDownloadedMedia({ outputDir, repair: true, retryCount: 0 });
+
+    assert.equal(result.repair?.failed, 1);
+    assert.deepEqual(await readFile(path), DAMAGED);
+    const again = await verifyDownloadedMedia({ outputDir });
+    assert.deepEqual(
+      again.problems.map((problem) => problem.status),
+      ["size_mismatch"]
+    );
+  });
+});
@@ -0,0 +1,278 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import { setImmediate as nextTurn } from "node:timers/promises";
+import type { JobEvent, JobResult, MediaItem } from "@huangjz11/shared";
+import type { SessionStore } from "../src/auth/session-store.js";
+import { getJournalTarget, getUserTargetKey, loadJobJournal } from "../src/orchestrator/job-journal.js";
+import {
+  resumeBatchJob,
+  runBatchJob,
+  type BatchJobRunInput
+} from "../src/orchestrator/run-batch-job.js";
+import type { FetchUserMediaInput, MediaScraper, TimelineWalkEnd } from "../src/scraper/media-scraper.js";
+
+// A timeline page as an engine reports it: the entries it walked and the
+// media found on them.
+interface TimelinePage {
+  tweetIds: string[];
+  media: string[];
+  // The serving engine fails before this page and the next one takes over,
+  // walking the timeline again from the top.
+  fallback?: boolean;
+}
+
+function createStore(baseDir: string): SessionStore {
+  return {
+    profile: "default",
+    path: join(baseDir, "session.json"),
+    baseDir,
+    encrypted: false,
+    exists: async () => false,
+    load: async () => null,
+    save: async () => {},
+    rekey: async () => {},
+    clear: async () => {}
+  };
+}
+
+describe("runBatchJob", () => {
+  let server: Server;
+  let baseUrl: string;
+  let outputDir: string;
+
+  before(async () => {
+    server = createServer((request, response) => response.end(`media ${request.url}`));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), "twmd-job-"));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  // Walks `pages` like a timeline engine and ends the walk with `end`.
+  function createScraper(pages: TimelinePage[], end: TimelineWalkEnd, calls: FetchUserMediaInput[] = []): MediaScraper {
+    return {
+      async initialize() {},
+      async fetchUserMedia() {
+        throw new Error("unused");
+      },
+      async *fetchUserMediaPages(input) {
+        calls.push(input);
+        input.onEngine?.({ type: "served", engine: "first" });
+        for (const page of pages) {
+          // Every page request takes a turn of the event loop, as over the network.
+          await nextTurn();
+          if (page.fallback) {
+            input.onEngine?.({ type: "fallback", engine: "first", next: "second", error: "cursor rejected" });
+            input.onEngine?.({ type: "served", engine: "second" });
+          }
+
+          input.onTimelinePage?.({ tweetIds: page.tweetIds });
+          yield page.media.map(
+            (tweetId): MediaItem => ({
+              id: `m${tweetId}`,
+              tweetId,
+              username: input.username,
+              kind: "image",
+              url: `${baseUrl}/${tweetId}.jpg`
+            })
+          );
+        }
+
+        input.onTimelineEnd?.(end);
+      }
+    };
+  }
+
+  async function drain(
+    job: AsyncGenerator<JobEvent, JobResult, void>,
+    onEvent?: (event: JobEvent) => void
+  ): Promise<JobResult> {
+    while (true) {
+      const step = await job.next();
+      if (step.done) {
+        return step.value;
+      }
+
+      onEvent?.(step.value);
+    }
+  }
+
+  async function runJob(
+    scraper: MediaScraper,
+    options: Partial<BatchJobRunInput> = {},
+    onEvent?: (event: JobEvent) => void
+  ): Promise<JobResult> {
+    const job = runBatchJob({
+      store: createStore(outputDir),
+      scraper,
+      users: ["alice"],
+      outputDir,
+      mediaKinds: ["image"],
+      ...options
+    });
+    return await drain(job, onEvent);
+  }
+
+  // Runs a job, cancels it once `page` of the user's timeline downloaded and
+  // returns the job ID to resume.
+  async function runJobUntilPage(
+    scraper: MediaScraper,
+    page: number,
+    options: Partial<BatchJobRunInput> = {}
+  ): Promise<string> {
+    const controller = new AbortController();
+    const result = await runJob(scraper, { ...options, signal: controller.signal }, (event) => {
+      if (event.message === `Page ${page} downloaded.`) {
+        controller.abort();
+      }
+    });
+    assert.ok(result.jobId);
+    return result.jobId;
+  }
+
+  async function readSyncCursor(): Promise<string | undefined> {
+    const raw = await readFile(join(outputDir, ".twmd-cache", "sync-state.json"), "utf8");
+    const state = JSON.parse(raw) as { users: Record<string, { newestTweetId?: string }> };
+    return state.users.alice?.newestTweetId;
+  }
+
+  describe("sync cursor", () => {
+    const pages: TimelinePage[] = [
+      { tweetIds: ["900", "800"], media: ["100"] },
+      { tweetIds: ["700"], media: ["700"] }
+    ];
+
+    test("moves to the newest timeline entry once the walk is complete", async () => {
+      await runJob(createScraper(pages, "complete"), { sinceLast: true });
+
+      // 900 is a retweet whose media carries the original tweet's ID.
+      assert.equal(await readSyncCursor(), "900");
+    });
+
+    test("stays put when pagination stopped before the old cursor", async () => {
+      await runJob(createScraper(pages, "complete"), { sinceLast: true });
+      await runJob(
+        createScraper([{ tweetIds: ["1200", "1100"], media: ["1200"] }], "truncated"),
+        { sinceLast: true, maxTweetsPerUser: 2 }
+      );
+
+      assert.equal(await readSyncCursor(), "900");
+    });
+
+    test("is only written by --since-last runs that start from the newest tweet", async () => {
+      await runJob(createScraper(pages, "complete"));
+      await runJob(createScraper(pages, "complete"), { sinceLast: true, until: "2030-01-01" });
+
+      assert.equal(await readSyncCursor(), undefined);
+    });
+
+    test("hands the stored cursor to the next --since-last run", async () => {
+      const calls: FetchUserMediaInput[] = [];
+      await runJob(createScraper(pages, "complete"), { sinceLast: true });
+      await runJob(createScraper([], "complete", calls), { sinceLast: true });
+
+      assert.equal(calls[0]?.sinceTweetId, "900");
+    });
+  });
+
+  describe("date range", () => {
+    test("turns --since and --until into snowflake ID bounds", async () => {
+      const calls: FetchUserMediaInput[] = [];
+      await runJob(createScraper([], "complete", calls), { since: "2024-01-01", until: "2024-02-01" });
+
+      // The first ID of 2024-01-01T00:00:00Z, less one, and the first ID of
+      // 2024-02-01T00:00:00Z.
+      assert.equal(calls[0]?.sinceTweetId, "1741610183685046271");
+      assert.equal(calls[0]?.untilTweetId, "1752844207518646272");
+    });
+
+    test("keeps the newer of --since and the stored cursor", async () => {
+      const calls: FetchUserMediaInput[] = [];
+      await runJob(createScraper([{ tweetIds: ["900"], media: [] }], "complete"), { sinceLast: true });
+      await runJob(createScraper([], "complete", calls), { sinceLast: true, since: "2024-01-01" });
+
+      assert.equal(calls[0]?.sinceTweetId, "1741610183685046271");
+    });
+
+    test("rejects a range that ends before it starts", async () => {
+      await assert.rejects(
+        runJob(createScraper([], "complete"), { since: "2024-02-01", until: "2024-01-01" }),
+        /since \(2024-02-01\) must be earlier than until \(2024-01-01\)/
+      );
+      await assert.rejects(
+        runJob(createScraper([], "complete"), { since: "last week" }),
+        /Invalid date: last week/
+      );
+    });
+  });
+
+  describe("resume", () => {
+    test("continues below the last downloaded page with its media counted", async () => {
+      const pages: TimelinePage[] = [
+        { tweetIds: ["900", "800"], media: ["900"] },
+        { tweetIds: ["700"], media: ["700"] },
+        { tweetIds: ["600"], media: ["600"] }
+      ];
+      const jobId = await runJobUntilPage(createScraper(pages, "complete"), 2);
+
+      const calls: FetchUserMediaInput[] = [];
+      const result = await drain(
+        resumeBatchJob({
+          store: createStore(outputDir),
+          scraper: createScraper(pages.slice(2), "complete", calls),
+          outputDir,
+          jobId
+        })
+      );
+
+      assert.equal(calls[0]?.untilTweetId, "700");
+      assert.deepEqual(
+        { succeededUsers: result.succeededUsers, totalMedia: result.totalMedia, downloaded: result.downloaded },
+        { succeededUsers: 1, totalMedia: 3, downloaded: 3 }
+      );
+    });
+
+    test("counts only the tweets the fallback engine walked", async () => {
+      const pages: TimelinePage[] = [
+        { tweetIds: ["900", "800"], media: ["900"] },
+        { tweetIds: ["900", "800"], media: [], fallback: true },
+        { tweetIds: ["700"], media: ["700"] },
+        { tweetIds: ["600"], media: ["600"] }
+      ];
+      const jobId = await runJobUntilPage(createScraper(pages, "complete"), 3, { maxTweetsPerUser: 10 });
+
+      const journal = await loadJobJournal(outputDir, jobId);
+      assert.ok(journal);
+      const progress = getJournalTarget(journal, getUserTargetKey("alice"))?.progress;
+      assert.equal(progress?.tweets, 3);
+      assert.equal(progress?.beforeTweetId, "700");
+
+      const calls: FetchUserMediaInput[] = [];
+      await drain(
+        resumeBatchJob({
+          store: createStore(outputDir),
+          scraper: createScraper(pages.slice(3), "complete", calls),
+          outputDir,
+          jobId
+        })
+      );
+
+      assert.equal(calls[0]?.maxTweets, 7);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import type { SessionData } from "@huangjz11/shared";
+import { createSessionStore } from "../src/auth/session-store.js";
+
+const SESSION: SessionData = {
+  cookies: ["auth_token=secret-token", "ct0=csrf"],
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  valid: true
+};
+
+describe("createSessionStore", () => {
+  const originalHome = process.env.HOME;
+  const originalKey = process.env.TWMD_SESSION_KEY;
+  let home: string;
+
+  before(() => {
+    delete process.env.TWMD_SESSION_KEY;
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    if (originalKey !== undefined) {
+      process.env.TWMD_SESSION_KEY = originalKey;
+    }
+  });
+
+  beforeEach(async () => {
+    home = await mkdtemp(join(tmpdir(), "twmd-session-"));
+    process.env.HOME = home;
+  });
+
+  afterEach(async () => {
+    await rm(home, { recursive: true, force: true });
+  });
+
+  function openStore(passphrase?: string): ReturnType<typeof createSessionStore> {
+    return createSessionStore({ appName: "twmd-test", passphrase });
+  }
+
+  test("encrypts the saved session and reads it back with the same key", async () => {
+    const store = openStore("correct horse");
+    await store.save(SESSION);
+
+    const raw = await readFile(store.path, "utf8");
+    assert.doesNotMatch(raw, /secret-token/);
+    assert.match(raw, /"format": "twmd-encrypted-session"/);
+    assert.deepEqual(await openStore("correct horse").load(), SESSION);
+  });
+
+  test("refuses an encrypted session without the right key", async () => {
+    await openStore("correct horse").save(SESSION);
+
+    await assert.rejects(openStore().load(), /is encrypted\. Set TWMD_SESSION_KEY/);
+    await assert.rejects(openStore("battery staple").load(), /could not be decrypted, check the session key/);
+  });
+
+  test("encrypts a plaintext session in place once a key is set", async () => {
+    await openStore().save(SESSION);
+    const store = openStore("correct horse");
+
+    assert.deepEqual(await store.load(), SESSION);
+    assert.doesNotMatch(await readFile(store.path, "utf8"), /secret-token/);
+  });
+
+  test("rekeys to a new key and back to plaintext", async () => {
+    const store = openStore("correct horse");
+    await store.save(SESSION);
+
+    await store.rekey("battery staple");
+    await assert.rejects(openStore("correct horse").load(), /could not be decrypted/);
+    assert.deepEqual(await openStore("battery staple").load(), SESSION);
+
+    await store.rekey(undefined);
+    assert.equal(store.encrypted, false);
+    assert.deepEqual(JSON.parse(await readFile(store.path, "utf8")), SESSION);
+  });
+});
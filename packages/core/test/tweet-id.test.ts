@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseTweetReference } from "../src/utils/tweet-id.js";
+
+describe("parseTweetReference", () => {
+  test("reads bare IDs and status links from x.com and twitter.com", () => {
+    assert.equal(parseTweetReference(" 1741610183685046272 "), "1741610183685046272");
+    assert.equal(parseTweetReference("https://x.com/alice/status/123?s=20"), "123");
+    assert.equal(parseTweetReference("twitter.com/alice/status/456/photo/1"), "456");
+    assert.equal(parseTweetReference("https://mobile.twitter.com/alice/statuses/789"), "789");
+  });
+
+  test("rejects other hosts and links without a status", () => {
+    assert.equal(parseTweetReference("https://example.com/alice/status/123"), null);
+    assert.equal(parseTweetReference("https://x.com/alice"), null);
+    assert.equal(parseTweetReference(""), null);
+  });
+});
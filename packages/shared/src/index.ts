@@ -1,6 +1,14 @@
 export type MediaKind = "image" | "video" | "gif";
 
-export type ScraperEngine = "playwright" | "graphql";
+// Name of a registered scraper engine; built in are graphql, v11 and
+// playwright.
+export type ScraperEngine = string;
+
+export type MediaSource =
+  | { type: "search"; query: string }
+  | { type: "likes"; username: string }
+  | { type: "bookmarks" }
+  | { type: "list"; listId: string };
 
 export interface SessionData {
   cookies: string[];
@@ -8,6 +16,22 @@ export interface SessionData {
   valid: boolean;
 }
 
+export type MediaRelation = "original" | "retweet" | "quote" | "reply";
+
+export interface ContentInclusion {
+  retweets?: boolean;
+  quotes?: boolean;
+  replies?: boolean;
+}
+
+export interface TweetMetrics {
+  likes?: number;
+  retweets?: number;
+  replies?: number;
+  quotes?: number;
+  bookmarks?: number;
+}
+
 export interface MediaItem {
   id: string;
   tweetId: string;
@@ -16,18 +40,29 @@ export interface MediaItem {
   url: string;
   createdAt?: string;
   filenameHint?: string;
+  index?: number;
+  text?: string;
+  lang?: string;
+  metrics?: TweetMetrics;
+  relation?: MediaRelation;
+  // Author of the tweet carrying the media when it is not `username`
+  // (retweeted or quoted tweets).
+  author?: string;
 }
 
 export interface FailureDetail {
-  scope: "user" | "media";
+  scope: "user" | "tweet" | "source" | "media";
   username: string;
   message: string;
   code?: string;
+  tweetId?: string;
+  source?: string;
   media?: {
     tweetId: string;
     mediaId: string;
     url: string;
     targetPath?: string;
+    relation?: MediaRelation;
   };
   attempts?: number;
   timestamp: string;
@@ -35,15 +70,28 @@ export interface FailureDetail {
 
 export interface BatchJobInput {
   users: string[];
+  tweets?: string[];
+  sources?: MediaSource[];
   outputDir: string;
   mediaKinds: MediaKind[];
-  engine?: ScraperEngine;
+  // Ordered fallback chain; older journals hold a single engine name.
+  engine?: ScraperEngine | ScraperEngine[];
   maxTweetsPerUser?: number;
   concurrency?: number;
+  userConcurrency?: number;
   retryCount?: number;
   userRetryCount?: number;
   userDelayMs?: number;
   perRequestDelayMs?: number;
+  maxBytesPerSecond?: number;
+  hostConcurrency?: Record<string, number>;
+  sinceLast?: boolean;
+  since?: string;
+  until?: string;
+  include?: ContentInclusion;
+  filenameTemplate?: string;
+  writeMetadata?: boolean;
+  embedMetadata?: boolean;
 }
 
 export type JobEventType =
@@ -51,31 +99,72 @@ export type JobEventType =
   | "user_started"
   | "media_found"
   | "download_progress"
+  | "media_started"
+  | "media_downloaded"
+  | "media_skipped"
+  | "media_failed"
+  | "job_progress"
   | "user_finished"
   | "job_finished"
+  | "job_cancelled"
   | "warning"
   | "error";
 
+export interface JobEventMedia {
+  tweetId: string;
+  mediaId: string;
+  kind: MediaKind;
+  url: string;
+  // Bytes received by this run; a resumed partial file only counts the rest.
+  bytes?: number;
+  elapsedMs?: number;
+  bytesPerSecond?: number;
+}
+
 export interface JobEvent {
   type: JobEventType;
   message: string;
   timestamp: string;
+  jobId?: string;
   username?: string;
   progress?: {
     total: number;
     downloaded: number;
     failed: number;
     skipped: number;
+    // Only set on job_progress; the ETA covers the media found so far.
+    bytes?: number;
+    bytesPerSecond?: number;
+    etaSeconds?: number;
   };
+  // Only set on media_* events.
+  media?: JobEventMedia;
+  // Engine that served the user, only set on user_finished.
+  engine?: string;
+  // Partial result, only set on job_cancelled.
+  result?: JobResult;
 }
 
 export interface JobResult {
+  jobId?: string;
+  cancelled?: boolean;
   totalUsers: number;
   succeededUsers: number;
   failedUsers: number;
+  totalTweets: number;
+  succeededTweets: number;
+  failedTweets: number;
+  totalSources: number;
+  succeededSources: number;
+  failedSources: number;
   totalMedia: number;
   downloaded: number;
   failed: number;
   skipped: number;
   failureDetails: FailureDetail[];
+  // Session profile that fetched each user's media, keyed by username; only
+  // kept when the job had fallback accounts to switch between.
+  userAccounts?: Record<string, string>;
+  // Scraper engine that fetched each user's media, keyed by username.
+  userEngines?: Record<string, string>;
 }